@@ -0,0 +1,102 @@
+import { ItemView, TFile, WorkspaceLeaf } from 'obsidian'
+import type ZettelkastenPlugin from './main'
+import { VIEW_TYPE_ZETTELKASTEN_DIAGNOSTICS } from './types'
+import { collectDiagnostics } from './diagnostics'
+
+/**
+ * 结构诊断视图：列出环、出现在多个位置的笔记和双向引用对，
+ * 打开或点击刷新时重新构建，不随笔记变化自动更新
+ */
+export class ZettelDiagnosticsView extends ItemView {
+  plugin: ZettelkastenPlugin
+
+  constructor(leaf: WorkspaceLeaf, plugin: ZettelkastenPlugin) {
+    super(leaf)
+    this.plugin = plugin
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_ZETTELKASTEN_DIAGNOSTICS
+  }
+
+  getDisplayText(): string {
+    return '卢曼笔记结构诊断'
+  }
+
+  getIcon(): string {
+    return 'stethoscope'
+  }
+
+  async onOpen() {
+    this.render()
+  }
+
+  async onClose() {
+    this.contentEl.empty()
+  }
+
+  render() {
+    const { contentEl } = this
+    contentEl.empty()
+    contentEl.addClass('zk-diagnostics')
+
+    const headerEl = contentEl.createDiv({ cls: 'zk-diagnostics-header' })
+    headerEl.createEl('h3', { text: '结构诊断' })
+    const refreshBtn = headerEl.createEl('button', { text: '刷新' })
+    refreshBtn.onclick = () => this.render()
+
+    const { cycles, multiPositions, mutualPairs } = collectDiagnostics(this.app, this.plugin.settings)
+
+    // 1. 环
+    const cyclesEl = this.createSection('环', cycles.length, '节点与父节点以外的祖先之间也存在层级关系，构建时该关系被忽略')
+    for (const cycle of cycles) {
+      const item = cyclesEl.createDiv({ cls: 'zk-diagnostics-item' })
+      item.createSpan({ cls: 'zk-id', text: cycle.id })
+      // 最后回到环的起点
+      const loop = [...cycle.files, cycle.files[0]]
+      loop.forEach((file, index) => {
+        if (index > 0) {
+          item.createSpan({ cls: 'zk-diagnostics-arrow', text: ' → ' })
+        }
+        this.createFileLink(item, file)
+      })
+    }
+
+    // 2. 多位置
+    const multiEl = this.createSection('出现在多个位置的笔记', multiPositions.length)
+    for (const { file, ids } of multiPositions) {
+      const item = multiEl.createDiv({ cls: 'zk-diagnostics-item' })
+      this.createFileLink(item, file)
+      item.createSpan({ cls: 'zk-diagnostics-ids', text: ids.join(', ') })
+    }
+
+    // 3. 双向引用
+    const mutualEl = this.createSection('双向引用', mutualPairs.length)
+    for (const [a, b] of mutualPairs) {
+      const item = mutualEl.createDiv({ cls: 'zk-diagnostics-item' })
+      this.createFileLink(item, a)
+      item.createSpan({ cls: 'zk-diagnostics-arrow', text: ' ↔ ' })
+      this.createFileLink(item, b)
+    }
+  }
+
+  private createSection(title: string, count: number, desc?: string): HTMLElement {
+    const section = this.contentEl.createEl('details', { cls: 'zk-diagnostics-section' })
+    section.open = count > 0
+    section.createEl('summary', { text: `${title} (${count})` })
+    if (desc) {
+      section.createDiv({ cls: 'zk-diagnostics-desc', text: desc })
+    }
+    return section
+  }
+
+  private createFileLink(container: HTMLElement, file: TFile) {
+    const link = container.createEl('a', { cls: 'zk-diagnostics-file', text: file.basename })
+    link.setAttribute('title', file.path)
+    link.onclick = async (e) => {
+      e.preventDefault()
+      // 诊断视图本身位于编辑区，getLeaf(false) 不会替换掉它
+      await this.app.workspace.getLeaf(e.ctrlKey || e.metaKey ? 'tab' : false).openFile(file)
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { App, TFile } from 'obsidian'
+import { ZettelkastenSettings, ZettelNode } from './types'
+import { buildZettelkastenTree, collectZettelNodes } from './tree-builder'
+import { ZettelGraphIndex } from './graph-index'
+import { getParentFiles } from './parent-field'
+import { createScopeFilter } from './scope'
+import { NODE_KEY_SEPARATOR } from './utils'
+
+export interface ZettelCycle {
+    files: TFile[] // 环上的笔记，从环的起点开始，最后一篇又连回起点
+    id: string // 发现该环的位置的编号
+}
+
+export interface ZettelMultiPosition {
+    file: TFile
+    ids: string[] // 笔记在树中各个位置的编号
+}
+
+export interface ZettelDiagnostics {
+    cycles: ZettelCycle[]
+    multiPositions: ZettelMultiPosition[]
+    mutualPairs: [TFile, TFile][]
+}
+
+/**
+ * 构建一棵完整的树并收集结构诊断：
+ * - 环：节点与父节点以外的祖先之间也存在层级关系（链接或父节点声明），构建时被祖先检查忽略
+ * - 多位置：同一笔记出现在树中的多个位置
+ * - 双向引用：互相链接的笔记对
+ */
+export function collectDiagnostics(app: App, settings: ZettelkastenSettings): ZettelDiagnostics {
+    const graphIndex = new ZettelGraphIndex(app, settings)
+    const nodes = collectZettelNodes(buildZettelkastenTree(app, settings, graphIndex))
+        .filter((n) => n.file !== null && n.id !== '')
+
+    return {
+        cycles: findCycles(app, settings, graphIndex, nodes),
+        multiPositions: findMultiPositions(nodes),
+        mutualPairs: findMutualPairs(app, settings, graphIndex),
+    }
+}
+
+function findCycles(
+    app: App,
+    settings: ZettelkastenSettings,
+    graphIndex: ZettelGraphIndex,
+    nodes: ZettelNode[],
+): ZettelCycle[] {
+    // 文件名编号的层级由编号决定，不会成环
+    if (settings.treeSource === 'filename') return []
+
+    // 与 node 存在层级关系的文件路径（链接模式下为任意方向的链接）
+    const getRelated = (file: TFile): Set<string> => {
+        if (settings.treeSource === 'frontmatter') {
+            // 声明 file 为父节点的笔记才是它的子节点
+            const related = new Set<string>()
+            for (const path of graphIndex.getIncoming(file.path)) {
+                const source = app.vault.getAbstractFileByPath(path)
+                if (source instanceof TFile && getParentFiles(app, source, settings.parentField).includes(file)) {
+                    related.add(path)
+                }
+            }
+            return related
+        }
+        return new Set([...graphIndex.getOutgoing(file.path), ...graphIndex.getIncoming(file.path)])
+    }
+
+    const cycles: ZettelCycle[] = []
+    const seen = new Set<string>()
+
+    for (const node of nodes) {
+        if (!node.file) continue
+
+        const chain = node.key.split(NODE_KEY_SEPARATOR)
+        const related = getRelated(node.file)
+
+        // 直接父节点是正常的层级关系，从祖父节点开始检查
+        for (let i = 0; i < chain.length - 2; i++) {
+            if (!related.has(chain[i])) continue
+
+            const paths = chain.slice(i)
+            const signature = normalizeCycle(paths)
+            if (seen.has(signature)) continue
+            seen.add(signature)
+
+            const files = paths
+                .map((path) => app.vault.getAbstractFileByPath(path))
+                .filter((f): f is TFile => f instanceof TFile)
+            cycles.push({ files, id: node.id })
+        }
+    }
+
+    return cycles
+}
+
+/**
+ * 同一个环从不同位置发现时只记录一次：旋转到字典序最小的路径开头
+ */
+function normalizeCycle(paths: string[]): string {
+    let start = 0
+    paths.forEach((path, index) => {
+        if (path < paths[start]) start = index
+    })
+    return [...paths.slice(start), ...paths.slice(0, start)].join(NODE_KEY_SEPARATOR)
+}
+
+function findMultiPositions(nodes: ZettelNode[]): ZettelMultiPosition[] {
+    const positions = new Map<TFile, string[]>()
+    for (const node of nodes) {
+        if (!node.file) continue
+        positions.set(node.file, [...(positions.get(node.file) || []), node.id])
+    }
+
+    return Array.from(positions.entries())
+        .filter(([, ids]) => ids.length > 1)
+        .map(([file, ids]) => ({ file, ids }))
+        .sort((a, b) => b.ids.length - a.ids.length || a.file.basename.localeCompare(b.file.basename))
+}
+
+function findMutualPairs(
+    app: App,
+    settings: ZettelkastenSettings,
+    graphIndex: ZettelGraphIndex,
+): [TFile, TFile][] {
+    const inScope = createScopeFilter(app, settings)
+    const pairs: [TFile, TFile][] = []
+
+    for (const file of app.vault.getMarkdownFiles()) {
+        if (!inScope(file)) continue
+        for (const path of graphIndex.classifyLinks(file.path).mutuals) {
+            // 每对只记录一次
+            if (path <= file.path) continue
+            const other = app.vault.getAbstractFileByPath(path)
+            if (other instanceof TFile && other.extension === 'md' && inScope(other)) {
+                pairs.push([file, other])
+            }
+        }
+    }
+
+    return pairs.sort((a, b) => a[0].basename.localeCompare(b[0].basename))
+}
@@ -1,5 +1,6 @@
 import builtins from 'builtin-modules'
 import esbuild from 'esbuild'
+import path from 'path'
 import process from 'process'
 
 const banner = `/*
@@ -10,6 +11,33 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = process.argv[2] === 'production'
 
+// `worker:./tree-worker` 形式的导入：单独打包为 Worker 脚本，以文本形式内联
+const inlineWorkerPlugin = {
+  name: 'inline-worker',
+  setup(build) {
+    build.onResolve({ filter: /^worker:/ }, (args) => ({
+      path: path.resolve(args.resolveDir, `${args.path.slice('worker:'.length)}.ts`),
+      namespace: 'inline-worker',
+    }))
+    build.onLoad({ filter: /.*/, namespace: 'inline-worker' }, async (args) => {
+      const result = await esbuild.build({
+        entryPoints: [args.path],
+        bundle: true,
+        write: false,
+        format: 'iife',
+        target: 'es2018',
+        minify: prod,
+        metafile: true,
+      })
+      return {
+        contents: `export default ${JSON.stringify(result.outputFiles[0].text)}`,
+        loader: 'js',
+        watchFiles: Object.keys(result.metafile.inputs).map((file) => path.resolve(file)),
+      }
+    })
+  },
+}
+
 const context = await esbuild.context({
   banner: {
     js: banner,
@@ -23,6 +51,7 @@ const context = await esbuild.context({
   sourcemap: prod ? false : 'inline',
   treeShaking: true,
   outfile: 'main.js',
+  plugins: [inlineWorkerPlugin],
 })
 
 if (prod) {
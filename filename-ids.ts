@@ -0,0 +1,69 @@
+import { TFile } from 'obsidian'
+
+/**
+ * 默认的文件名编号规则，匹配不含扩展名的文件路径：
+ * - `1a2 标题`、`1.1 标题`：编号位于文件名开头，后接空格
+ * - `21/3d7a6 标题`：Luhmann 的分区号作为上一级文件夹名
+ * 每段数字或字母都取到最长（`(?!\d)`、`(?![a-z])`），只有一种匹配方式，匹配失败时不会反复回溯
+ */
+export const DEFAULT_FILENAME_ID_PATTERN =
+    '(?:^|/)((?:\\d+/)?\\d+(?!\\d)(?:\\.?(?:\\d+(?!\\d)|[a-z]+(?![a-z])))*)(?=\\s|$)'
+
+// 旧版的默认规则：数字或字母段可以任意拆分，保存在设置中时替换为 DEFAULT_FILENAME_ID_PATTERN
+export const LEGACY_FILENAME_ID_PATTERN = '(?:^|/)((?:\\d+/)?\\d+(?:\\.?(?:\\d+|[a-z]+))*)(?=\\s|$)'
+
+/**
+ * 编译文件名编号规则，无效的正则表达式退回默认规则
+ */
+export function compileFilenameIdPattern(pattern: string): RegExp {
+    try {
+        return new RegExp(pattern || DEFAULT_FILENAME_ID_PATTERN, 'i')
+    } catch (error) {
+        console.error('文件名编号规则无效，使用默认规则:', error)
+        return new RegExp(DEFAULT_FILENAME_ID_PATTERN, 'i')
+    }
+}
+
+/**
+ * 从文件路径中提取编号：有捕获组时取第一个捕获组，否则取整个匹配
+ */
+export function parseFilenameId(file: TFile, pattern: RegExp): string | null {
+    const path = file.path.replace(/\.md$/, '')
+    const match = path.match(pattern)
+    if (!match) return null
+
+    const id = (match[1] ?? match[0]).trim()
+    // 分隔符必须出现在两段之间，否则同一段可以有多种拆分方式，匹配失败时会指数级回溯
+    return /^[a-z\d]+(?:[./][a-z\d]+)*$/i.test(id) ? id : null
+}
+
+/**
+ * 去掉编号的最后一段（连续的数字或字母）及其前面的分隔符
+ * 21/3d7a6 -> 21/3d7a, 21/3 -> 21, 1.2 -> 1, 1 -> null
+ */
+export function getFilenameParentId(id: string): string | null {
+    const match = id.match(/^(.*?)[./]?(\d+|[a-z]+)$/i)
+    return match && match[1] ? match[1] : null
+}
+
+/**
+ * 按编号段比较：数字段按数值，字母段按长度再按字母顺序，前缀排在前面
+ */
+export function compareFilenameIds(a: string, b: string): number {
+    const segmentsA = a.toLowerCase().match(/\d+|[a-z]+/g) || []
+    const segmentsB = b.toLowerCase().match(/\d+|[a-z]+/g) || []
+
+    for (let i = 0; i < Math.min(segmentsA.length, segmentsB.length); i++) {
+        const x = segmentsA[i]
+        const y = segmentsB[i]
+        if (x === y) continue
+
+        const xIsDigit = /^\d/.test(x)
+        const yIsDigit = /^\d/.test(y)
+        if (xIsDigit !== yIsDigit) return xIsDigit ? -1 : 1
+        if (xIsDigit) return parseInt(x, 10) - parseInt(y, 10)
+        return x.length - y.length || (x < y ? -1 : 1)
+    }
+
+    return segmentsA.length - segmentsB.length
+}
@@ -0,0 +1,183 @@
+import { App, TFile } from 'obsidian'
+import { ZettelkastenSettings, ZettelNode } from './types'
+import { formatSuffix, parseSuffix, parseZettelId } from './id-format'
+import { LinkTreeChildId } from './link-tree'
+
+export interface MovedFrozenId {
+    file: TFile
+    storedId: string // frontmatter 中保存的编号
+    id: string // 当前位置的编号
+}
+
+export type ChildIdAssignment = LinkTreeChildId<TFile>
+
+/**
+ * 读取文件 frontmatter 中保存的编号
+ */
+export function readFrozenId(app: App, file: TFile, field: string): string | null {
+    const value = app.metadataCache.getFileCache(file)?.frontmatter?.[field]
+    if (value === undefined || value === null || value === '') return null
+    return String(value)
+}
+
+/**
+ * 收集库中所有已保存的编号
+ * Map: ID -> 声明该编号的文件
+ */
+export function collectFrozenIds(app: App, settings: ZettelkastenSettings): Map<string, TFile[]> {
+    const storedIds = new Map<string, TFile[]>()
+
+    for (const file of app.vault.getMarkdownFiles()) {
+        const id = readFrozenId(app, file, settings.frozenIdField)
+        if (id === null) continue
+
+        const files = storedIds.get(id)
+        if (files) {
+            files.push(file)
+        } else {
+            storedIds.set(id, [file])
+        }
+    }
+
+    return storedIds
+}
+
+/**
+ * 找出被多个文件同时声明的编号
+ */
+export function findFrozenIdConflicts(app: App, settings: ZettelkastenSettings): Map<string, TFile[]> {
+    const conflicts = new Map<string, TFile[]>()
+    collectFrozenIds(app, settings).forEach((files, id) => {
+        if (files.length > 1) conflicts.set(id, files)
+    })
+    return conflicts
+}
+
+/**
+ * 找出保存的编号已不在原位置的笔记（笔记被移动到了其他父节点下）：
+ * 树中该笔记的所有位置都没有使用保存的编号，且保存编号的父编号所在的节点已经构建
+ * （父编号位于尚未构建的折叠分支中时无法判断，不列出）
+ */
+export function findMovedFrozenIds(
+    app: App,
+    settings: ZettelkastenSettings,
+    nodes: ZettelNode[],
+): MovedFrozenId[] {
+    const nodesById = new Map<string, ZettelNode>()
+    const positions = new Map<TFile, ZettelNode[]>()
+    for (const node of nodes) {
+        nodesById.set(node.id, node)
+        if (node.file) positions.set(node.file, [...(positions.get(node.file) || []), node])
+    }
+
+    const result: MovedFrozenId[] = []
+    positions.forEach((fileNodes, file) => {
+        const storedId = readFrozenId(app, file, settings.frozenIdField)
+        if (storedId === null || fileNodes.some((n) => n.frozen || n.id === storedId)) return
+
+        // 向上找到最近的已存在的祖先编号
+        let parentId = parseZettelId(storedId, settings.idFormat)?.parentId ?? null
+        while (parentId !== null && parentId !== '' && !nodesById.has(parentId)) {
+            parentId = parseZettelId(parentId, settings.idFormat)?.parentId ?? null
+        }
+        if (parentId !== null && nodesById.get(parentId)?.pendingChildren) return
+
+        const current = fileNodes.find((n) => n.id !== '')
+        if (current) result.push({ file, storedId, id: current.id })
+    })
+    return result
+}
+
+/**
+ * 用当前位置的编号覆盖 frontmatter 中保存的编号
+ */
+export async function writeFrozenId(app: App, file: TFile, id: string, settings: ZettelkastenSettings) {
+    await app.fileManager.processFrontMatter(file, (frontmatter) => {
+        frontmatter[settings.frozenIdField] = id
+    })
+}
+
+/**
+ * 为同一父节点下的一组子节点分配冻结编号
+ * - 已保存且位于该父节点下的编号原样保留，按编号排列
+ * - 其余文件按原有排序追加，从已用最大后缀的下一个开始分配，
+ *   跳过库中其他文件已经声明的编号
+ */
+export function assignFrozenChildIds(
+    app: App,
+    files: TFile[],
+    prefix: string,
+    useDigits: boolean,
+    settings: ZettelkastenSettings,
+    storedIds: Map<string, TFile[]>,
+): ChildIdAssignment[] {
+    const frozen: { assignment: ChildIdAssignment; index: number }[] = []
+    const fresh: TFile[] = []
+    let nextIndex = 0
+
+    for (const file of files) {
+        const storedId = readFrozenId(app, file, settings.frozenIdField)
+        const index = storedId !== null && storedId.startsWith(prefix)
+            ? parseSuffix(storedId.slice(prefix.length), useDigits, settings.idFormat)
+            : -1
+
+        if (storedId !== null && index >= 0) {
+            frozen.push({ assignment: { file, id: storedId, frozen: true }, index })
+            nextIndex = Math.max(nextIndex, index + 1)
+        } else {
+            fresh.push(file)
+        }
+    }
+
+    frozen.sort((a, b) => a.index - b.index)
+    const result = frozen.map((entry) => entry.assignment)
+
+    for (const file of fresh) {
+        while (storedIds.has(`${prefix}${formatSuffix(nextIndex, useDigits, settings.idFormat)}`)) {
+            nextIndex++
+        }
+        result.push({
+            file,
+            id: `${prefix}${formatSuffix(nextIndex, useDigits, settings.idFormat)}`,
+            frozen: false,
+        })
+        nextIndex++
+    }
+
+    return result
+}
+
+/**
+ * 将新分配的编号写入 frontmatter
+ * 已有编号的文件不会被覆盖；同一文件出现在多个位置时只写入第一次出现的编号
+ * onWrite 在每个文件实际写入之前调用
+ */
+export async function persistFrozenIds(
+    app: App,
+    roots: ZettelNode[],
+    settings: ZettelkastenSettings,
+    onWrite?: (file: TFile) => void,
+) {
+    const field = settings.frozenIdField
+    const pending = new Map<TFile, string>()
+
+    const collect = (node: ZettelNode) => {
+        if (node.file && node.frozen === false && !pending.has(node.file)
+            && readFrozenId(app, node.file, field) === null) {
+            pending.set(node.file, node.id)
+        }
+        node.mutuals.forEach(collect)
+        node.backlinks.forEach(collect)
+        node.outgoings.forEach(collect)
+    }
+    roots.forEach(collect)
+
+    for (const [file, id] of Array.from(pending.entries())) {
+        await app.fileManager.processFrontMatter(file, (frontmatter) => {
+            if (!frontmatter[field]) {
+                onWrite?.(file)
+                frontmatter[field] = id
+            }
+        })
+    }
+}
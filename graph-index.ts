@@ -0,0 +1,159 @@
+import { App, TFile, getAllTags } from 'obsidian'
+import { ZettelkastenSettings } from './types'
+import { getFileLinks } from './link-context'
+
+export interface ClassifiedLinks {
+    mutuals: string[] // 互相链接
+    backlinks: string[] // 只有对方链接到本文件
+    outgoings: string[] // 只有本文件链接到对方
+}
+
+export interface GraphIndexUpdate {
+    affectedPaths: Set<string> // 链接关系发生变化的文件（自身及新增/移除的目标）
+    metadataChanged: boolean // frontmatter 或标签发生变化，可能影响排序、范围和根列表
+}
+
+/**
+ * 链接图索引：维护正向与反向链接，按文件增量更新，
+ * 避免每次刷新都遍历 resolvedLinks 重新计算反向链接。
+ * 只记录满足链接上下文规则的链接，同时记录未解析的链接文本供占位节点使用
+ */
+export class ZettelGraphIndex {
+    private app: App
+    private settings: ZettelkastenSettings
+    private outgoing = new Map<string, Set<string>>()
+    private incoming = new Map<string, Set<string>>()
+    private unresolved = new Map<string, string[]>() // 已排序的未解析链接文本
+    private metadataSignatures = new Map<string, string>()
+
+    constructor(app: App, settings: ZettelkastenSettings) {
+        this.app = app
+        this.settings = settings
+        this.rebuild()
+    }
+
+    /**
+     * 根据 resolvedLinks 完整重建索引
+     */
+    rebuild() {
+        this.outgoing.clear()
+        this.incoming.clear()
+        this.unresolved.clear()
+        this.metadataSignatures.clear()
+
+        const resolvedLinks = this.app.metadataCache.resolvedLinks
+        for (const sourcePath in resolvedLinks) {
+            const source = this.app.vault.getAbstractFileByPath(sourcePath)
+            if (!(source instanceof TFile)) continue
+            const links = getFileLinks(this.app, source, this.settings.linkContext)
+            const targets = new Set(links.targets)
+            this.outgoing.set(sourcePath, targets)
+            this.setUnresolved(sourcePath, links.unresolved)
+            targets.forEach((target) => this.addIncoming(target, sourcePath))
+        }
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            this.metadataSignatures.set(file.path, this.getMetadataSignature(file))
+        }
+    }
+
+    getOutgoing(path: string): string[] {
+        return Array.from(this.outgoing.get(path) || [])
+    }
+
+    getIncoming(path: string): string[] {
+        return Array.from(this.incoming.get(path) || [])
+    }
+
+    getUnresolved(path: string): string[] {
+        return this.unresolved.get(path) || []
+    }
+
+    /**
+     * 将文件的正向与反向链接按 Mutual / Backlink / Outgoing 分类
+     */
+    classifyLinks(path: string): ClassifiedLinks {
+        const outgoing = this.outgoing.get(path) || new Set<string>()
+        const incoming = this.incoming.get(path) || new Set<string>()
+        const result: ClassifiedLinks = { mutuals: [], backlinks: [], outgoings: [] }
+
+        incoming.forEach((source) => {
+            if (source === path) return
+            if (outgoing.has(source)) {
+                result.mutuals.push(source)
+            } else {
+                result.backlinks.push(source)
+            }
+        })
+        outgoing.forEach((target) => {
+            if (target !== path && !incoming.has(target)) result.outgoings.push(target)
+        })
+
+        return result
+    }
+
+    /**
+     * 重新读取单个文件的链接和元数据
+     */
+    updateFile(file: TFile): GraphIndexUpdate {
+        const path = file.path
+        const previous = this.outgoing.get(path) || new Set<string>()
+        const links = getFileLinks(this.app, file, this.settings.linkContext)
+        const current = new Set(links.targets)
+        const affectedPaths = new Set<string>([path])
+
+        previous.forEach((target) => {
+            if (!current.has(target)) {
+                this.removeIncoming(target, path)
+                affectedPaths.add(target)
+            }
+        })
+        current.forEach((target) => {
+            if (!previous.has(target)) {
+                this.addIncoming(target, path)
+                affectedPaths.add(target)
+            }
+        })
+        this.outgoing.set(path, current)
+        this.setUnresolved(path, links.unresolved)
+
+        const signature = this.getMetadataSignature(file)
+        const metadataChanged = this.metadataSignatures.get(path) !== signature
+        this.metadataSignatures.set(path, signature)
+
+        return { affectedPaths, metadataChanged }
+    }
+
+    private setUnresolved(path: string, texts: string[]) {
+        if (texts.length > 0) {
+            this.unresolved.set(path, texts.sort((a, b) => a.localeCompare(b)))
+        } else {
+            this.unresolved.delete(path)
+        }
+    }
+
+    private addIncoming(target: string, source: string) {
+        const sources = this.incoming.get(target)
+        if (sources) {
+            sources.add(source)
+        } else {
+            this.incoming.set(target, new Set([source]))
+        }
+    }
+
+    private removeIncoming(target: string, source: string) {
+        const sources = this.incoming.get(target)
+        if (!sources) return
+        sources.delete(source)
+        if (sources.size === 0) this.incoming.delete(target)
+    }
+
+    private getMetadataSignature(file: TFile): string {
+        const cache = this.app.metadataCache.getFileCache(file)
+        if (!cache) return ''
+        return JSON.stringify({
+            frontmatter: cache.frontmatter || null,
+            tags: getAllTags(cache) || [],
+        })
+    }
+}
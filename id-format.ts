@@ -0,0 +1,136 @@
+import { ZettelIdFormat } from './types'
+import { getIndexFromLetterSequence, getLetterSequenceFromIndex } from './utils'
+
+export const DEFAULT_ID_FORMAT: ZettelIdFormat = {
+    backlinkSeparator: '',
+    mutualSeparator: '.',
+    outgoingSeparator: '>',
+    branchSeparator: '',
+    rootPrefix: '',
+    startIndex: 1,
+    digitPadding: 0,
+    uppercaseLetters: false,
+}
+
+export type ZettelIdLinkType = 'mutual' | 'backlink' | 'outgoing'
+
+export interface ParsedZettelId {
+    parentId: string // 父节点编号，顶层节点为 ''
+    linkType: ZettelIdLinkType // 由分隔符推断的连接类型
+    suffix: string // 最后一段数字或字母
+}
+
+/**
+ * 编号的最后一段是否为数字，决定反向链接子节点改用字母还是数字
+ */
+export function endsWithDigit(id: string): boolean {
+    return /\d$/.test(id)
+}
+
+/**
+ * 由同级位置生成最后一段：数字从起始序号开始并补零，字母为 a, b, …, z, aa, …（可大写）
+ */
+export function formatSuffix(index: number, useDigits: boolean, format: ZettelIdFormat): string {
+    if (useDigits) {
+        return (index + format.startIndex).toString().padStart(format.digitPadding, '0')
+    }
+    const letters = getLetterSequenceFromIndex(index)
+    return format.uppercaseLetters ? letters.toUpperCase() : letters
+}
+
+/**
+ * formatSuffix 的逆运算，不符合当前格式的后缀返回 -1
+ */
+export function parseSuffix(suffix: string, useDigits: boolean, format: ZettelIdFormat): number {
+    let index = -1
+    if (useDigits) {
+        if (/^\d+$/.test(suffix)) index = parseInt(suffix, 10) - format.startIndex
+    } else {
+        index = getIndexFromLetterSequence(suffix.toLowerCase())
+    }
+    // 要求与重新格式化的结果一致，避免 `01` 与 `1`、`A` 与 `a` 被视为同一编号
+    return index >= 0 && formatSuffix(index, useDigits, format) === suffix ? index : -1
+}
+
+/**
+ * 顶层节点（森林模式的根、单根模式下根节点的子节点）的编号
+ */
+export function formatRootId(index: number, format: ZettelIdFormat): string {
+    return `${format.rootPrefix}${formatSuffix(index, true, format)}`
+}
+
+/**
+ * 子节点编号的前缀（父编号加分隔符）以及最后一段使用数字还是字母
+ * - 反向链接：数字字母交替；顶层节点之后可以使用分支分隔符（如 `21/3`），其后从数字重新开始
+ * - 双向引用、正向引用：沿用父编号最后一段的类型
+ * - 隐藏根节点（编号为空）的反向链接子节点是顶层节点，使用根编号前缀
+ */
+export function getChildIdPrefix(
+    parentId: string,
+    linkType: ZettelIdLinkType,
+    parentIsTopLevel: boolean,
+    format: ZettelIdFormat,
+): { prefix: string; useDigits: boolean } {
+    const parentDigit = endsWithDigit(parentId)
+    switch (linkType) {
+        case 'mutual':
+            return { prefix: `${parentId}${format.mutualSeparator}`, useDigits: parentDigit }
+        case 'outgoing':
+            return { prefix: `${parentId}${format.outgoingSeparator}`, useDigits: parentDigit }
+        case 'backlink':
+            if (parentId === '') {
+                return { prefix: format.rootPrefix, useDigits: true }
+            }
+            if (parentIsTopLevel && format.branchSeparator) {
+                return { prefix: `${parentId}${format.branchSeparator}`, useDigits: true }
+            }
+            return { prefix: `${parentId}${format.backlinkSeparator}`, useDigits: !parentDigit }
+    }
+}
+
+/**
+ * 已在祖先中出现的笔记再次出现时的编号：在当前编号后追加另一种类型的第一段
+ */
+export function formatRepeatId(currentId: string, format: ZettelIdFormat): string {
+    return `${currentId}${formatSuffix(0, !endsWithDigit(currentId), format)}`
+}
+
+/**
+ * 拆分编号的最后一段，并由分隔符推断与父节点的连接类型
+ * 1a2 -> { parentId: '1a', linkType: 'backlink', suffix: '2' }
+ * 1a.b -> { parentId: '1a', linkType: 'mutual', suffix: 'b' }
+ * 顶层编号（如 `3`、带根前缀的 `ZK3`）的父编号为 ''
+ */
+export function parseZettelId(id: string, format: ZettelIdFormat): ParsedZettelId | null {
+    const match = id.match(format.uppercaseLetters ? /(\d+|[A-Z]+)$/ : /(\d+|[a-z]+)$/)
+    if (!match) return null
+
+    const suffix = match[1]
+    const rest = id.slice(0, id.length - suffix.length)
+
+    // 较长的分隔符优先匹配
+    const separators: [string, ZettelIdLinkType][] = [
+        [format.mutualSeparator, 'mutual'],
+        [format.outgoingSeparator, 'outgoing'],
+        [format.branchSeparator, 'backlink'],
+        [format.backlinkSeparator, 'backlink'],
+    ]
+    separators.sort((a, b) => b[0].length - a[0].length)
+
+    let parsed: ParsedZettelId | null = null
+    for (const [separator, linkType] of separators) {
+        if (separator && rest.endsWith(separator)) {
+            parsed = { parentId: rest.slice(0, rest.length - separator.length), linkType, suffix }
+            break
+        }
+    }
+    if (!parsed) {
+        if (format.backlinkSeparator && rest !== format.rootPrefix && rest !== '') return null
+        parsed = { parentId: rest, linkType: 'backlink', suffix }
+    }
+
+    if (parsed.linkType === 'backlink' && parsed.parentId === format.rootPrefix) {
+        parsed.parentId = ''
+    }
+    return parsed
+}
@@ -0,0 +1,113 @@
+import { App, CachedMetadata, getLinkpath, Reference, TFile } from 'obsidian'
+import { ZettelLinkContextRules } from './types'
+
+export const DEFAULT_LINK_CONTEXT_RULES: ZettelLinkContextRules = {
+    includeEmbeds: true,
+    includeFrontmatterLinks: true,
+    ignoreCallouts: false,
+    onlyHeadings: [],
+    ignoreHeadings: [],
+}
+
+/**
+ * 规则与默认值一致时所有链接都计入，可以直接使用 resolvedLinks
+ */
+function countsEveryLink(rules: ZettelLinkContextRules): boolean {
+    return rules.includeEmbeds
+        && rules.includeFrontmatterLinks
+        && !rules.ignoreCallouts
+        && rules.onlyHeadings.length === 0
+        && rules.ignoreHeadings.length === 0
+}
+
+export interface ZettelFileLinks {
+    targets: string[] // 计入的链接目标路径
+    unresolved: string[] // 计入的未解析链接（unresolvedLinks 中的链接文本）
+}
+
+/**
+ * 获取文件中按链接上下文规则计入的链接目标路径和未解析链接，只遍历一次链接
+ * 代码块和行内代码中的链接不会被 Obsidian 解析，因此总是被忽略
+ */
+export function getFileLinks(app: App, file: TFile, rules: ZettelLinkContextRules): ZettelFileLinks {
+    const resolved = app.metadataCache.resolvedLinks[file.path] || {}
+    const unresolved = app.metadataCache.unresolvedLinks[file.path] || {}
+    if (countsEveryLink(rules)) {
+        return { targets: Object.keys(resolved), unresolved: Object.keys(unresolved) }
+    }
+
+    const targets = new Set<string>()
+    const texts = new Set<string>()
+    for (const reference of collectReferences(app, file, rules)) {
+        const linkpath = getLinkpath(reference.link)
+        if (unresolved[linkpath]) texts.add(linkpath)
+        const dest = app.metadataCache.getFirstLinkpathDest(linkpath, file.path)
+        // 只保留 resolvedLinks 中也存在的目标，与默认规则下的结果保持一致
+        if (dest && resolved[dest.path]) targets.add(dest.path)
+    }
+    return { targets: Array.from(targets), unresolved: Array.from(texts) }
+}
+
+/**
+ * 获取文件中按链接上下文规则计入的链接目标路径
+ */
+export function getLinkTargets(app: App, file: TFile, rules: ZettelLinkContextRules): string[] {
+    return getFileLinks(app, file, rules).targets
+}
+
+/**
+ * 收集满足规则的链接、嵌入和 frontmatter 链接
+ */
+function collectReferences(app: App, file: TFile, rules: ZettelLinkContextRules): Reference[] {
+    const cache = app.metadataCache.getFileCache(file)
+    if (!cache) return []
+
+    const references: Reference[] = []
+    const inContext = (offset: number) => isInLinkContext(cache, offset, rules)
+    for (const link of cache.links || []) {
+        if (inContext(link.position.start.offset)) references.push(link)
+    }
+    if (rules.includeEmbeds) {
+        for (const embed of cache.embeds || []) {
+            if (inContext(embed.position.start.offset)) references.push(embed)
+        }
+    }
+    // frontmatter 中的链接不属于任何标题，只受开关控制
+    if (rules.includeFrontmatterLinks) {
+        references.push(...(cache.frontmatterLinks || []))
+    }
+    return references
+}
+
+/**
+ * 判断正文中某个位置的链接是否满足标题和 callout 规则
+ */
+function isInLinkContext(cache: CachedMetadata, offset: number, rules: ZettelLinkContextRules): boolean {
+    if (rules.ignoreCallouts) {
+        const section = (cache.sections || []).find(
+            (s) => s.position.start.offset <= offset && offset < s.position.end.offset,
+        )
+        if (section?.type === 'callout') return false
+    }
+
+    if (rules.onlyHeadings.length === 0 && rules.ignoreHeadings.length === 0) {
+        return true
+    }
+
+    // 链接所在位置的标题路径（外层标题在前）
+    const headingPath: { level: number; heading: string }[] = []
+    for (const heading of cache.headings || []) {
+        if (heading.position.start.offset > offset) break
+        while (headingPath.length > 0 && headingPath[headingPath.length - 1].level >= heading.level) {
+            headingPath.pop()
+        }
+        headingPath.push({ level: heading.level, heading: heading.heading.trim().toLowerCase() })
+    }
+
+    const matches = (names: string[]) =>
+        headingPath.some(({ heading }) => names.some((name) => name.trim().toLowerCase() === heading))
+
+    if (rules.ignoreHeadings.length > 0 && matches(rules.ignoreHeadings)) return false
+    if (rules.onlyHeadings.length > 0 && !matches(rules.onlyHeadings)) return false
+    return true
+}
@@ -0,0 +1,223 @@
+import { App, Reference, TFile } from 'obsidian'
+
+export interface FileSnapshot {
+    file: TFile
+    before: string
+    after: string
+}
+
+export interface ReparentResult {
+    snapshots: FileSnapshot[]
+    leftoverFiles: TFile[] // 仍有链接未能删除的文件（缓存落后于内容、链接嵌套在 frontmatter 对象中等）
+}
+
+/**
+ * 与新建子笔记时写入的格式一致：[[文件名]]
+ */
+export function formatWikiLink(file: TFile): string {
+    return `[[${file.basename}]]`
+}
+
+/**
+ * 文件是否已经链接到目标文件
+ */
+export function hasLinkTo(app: App, source: TFile, target: TFile): boolean {
+    return !!app.metadataCache.resolvedLinks[source.path]?.[target.path]
+}
+
+function resolvesTo(app: App, source: TFile, target: TFile, link: Reference): boolean {
+    return app.metadataCache.getFirstLinkpathDest(link.link, source.path)?.path === target.path
+}
+
+/**
+ * 删除正文中所有解析到目标文件的链接和嵌入；删除后只剩空白的行整行移除
+ * 返回删除后的内容，以及因缓存位置与内容不一致而跳过的链接数
+ */
+function removeLinksTo(
+    app: App,
+    source: TFile,
+    target: TFile,
+    content: string,
+): { content: string, skipped: number } {
+    const cache = app.metadataCache.getFileCache(source)
+    const links = [...(cache?.links || []), ...(cache?.embeds || [])]
+    const ranges = links
+        .filter((link) => resolvesTo(app, source, target, link))
+        .map((link) => ({
+            start: link.position.start.offset,
+            end: link.position.end.offset,
+            original: link.original,
+        }))
+        .sort((a, b) => b.start - a.start)
+
+    let result = content
+    let skipped = 0
+    for (const { start, end, original } of ranges) {
+        // 缓存可能落后于文件内容，位置不匹配时跳过
+        if (result.slice(start, end) !== original) {
+            skipped++
+            continue
+        }
+
+        const lineStart = result.lastIndexOf('\n', start - 1) + 1
+        let lineEnd = result.indexOf('\n', end)
+        if (lineEnd < 0) lineEnd = result.length
+
+        const remaining = result.slice(lineStart, start) + result.slice(end, lineEnd)
+        if (remaining.trim() === '') {
+            // 整行移除（连同换行符）
+            const removeEnd = lineEnd < result.length ? lineEnd + 1 : lineEnd
+            const removeStart = removeEnd === lineEnd && lineStart > 0 ? lineStart - 1 : lineStart
+            result = result.slice(0, removeStart) + result.slice(removeEnd)
+        } else {
+            result = result.slice(0, start) + result.slice(end)
+        }
+    }
+    return { content: result, skipped }
+}
+
+/**
+ * 删除 frontmatter 中解析到目标文件的链接：属性值为该链接时删除属性，列表中删除对应的项（列表为空时删除属性）
+ * 返回未能删除的链接数（嵌套在对象中，或缓存落后于内容）
+ */
+async function removeFrontmatterLinksTo(
+    app: App,
+    source: TFile,
+    target: TFile,
+    snapshots: FileSnapshot[],
+): Promise<number> {
+    const links = (app.metadataCache.getFileCache(source)?.frontmatterLinks || [])
+        .filter((link) => resolvesTo(app, source, target, link))
+    if (links.length === 0) return 0
+
+    const before = await app.vault.read(source)
+    let skipped = 0
+    await app.fileManager.processFrontMatter(source, (frontmatter) => {
+        const removedItems = new Map<string, Set<number>>()
+        for (const link of links) {
+            // key 形如 "up"，列表中的项为 "up.0"
+            const [key, index, ...rest] = link.key.split('.')
+            const value = frontmatter[key]
+            if (index === undefined && value === link.original) {
+                delete frontmatter[key]
+            } else if (rest.length === 0 && Array.isArray(value) && value[Number(index)] === link.original) {
+                const items = removedItems.get(key) ?? new Set<number>()
+                items.add(Number(index))
+                removedItems.set(key, items)
+            } else {
+                skipped++
+            }
+        }
+        removedItems.forEach((items, key) => {
+            const remaining = (frontmatter[key] as unknown[]).filter((_, i) => !items.has(i))
+            if (remaining.length > 0) {
+                frontmatter[key] = remaining
+            } else {
+                delete frontmatter[key]
+            }
+        })
+    })
+
+    const after = await app.vault.read(source)
+    if (after !== before) snapshots.push({ file: source, before, after })
+    return skipped
+}
+
+/**
+ * 删除文件中（正文和 frontmatter）所有解析到目标文件的链接，extra 在删除后对正文做进一步修改
+ * 有链接未能删除时把文件记入 leftoverFiles
+ */
+async function removeAllLinksTo(
+    app: App,
+    source: TFile,
+    target: TFile,
+    result: ReparentResult,
+    extra: (content: string) => string = (content) => content,
+) {
+    let skipped = 0
+    // 先改正文：链接位置来自缓存，frontmatter 改写后偏移会变化
+    await editFile(app, source, (content) => {
+        const removed = removeLinksTo(app, source, target, content)
+        skipped += removed.skipped
+        return extra(removed.content)
+    }, result.snapshots)
+    skipped += await removeFrontmatterLinksTo(app, source, target, result.snapshots)
+
+    if (skipped > 0 && !result.leftoverFiles.includes(source)) {
+        result.leftoverFiles.push(source)
+    }
+}
+
+function appendLink(content: string, target: TFile): string {
+    return content + '\n' + formatWikiLink(target)
+}
+
+async function editFile(
+    app: App,
+    file: TFile,
+    transform: (content: string) => string,
+    snapshots: FileSnapshot[],
+) {
+    const before = await app.vault.read(file)
+    const after = transform(before)
+    if (after === before) return
+
+    await app.vault.modify(file, after)
+    snapshots.push({ file, before, after })
+}
+
+/**
+ * 将笔记移动到新的父节点下：
+ * - 子笔记：移除指向旧父节点的链接，添加指向新父节点的链接
+ * - 旧父节点：移除指向子笔记的链接
+ * - 新父节点：mutual 为 true 时添加指向子笔记的链接（与新建子笔记一致，成为双向引用），
+ *   否则移除指向子笔记的链接（成为单向的反向链接子节点）
+ * 新旧父节点可以相同，此时只调整父节点到子笔记的链接
+ * 删除的链接包括正文中的链接、嵌入和 frontmatter 中的链接
+ * 返回被修改文件的快照（用于撤销），以及仍有链接未能删除的文件
+ */
+export async function reparentNote(
+    app: App,
+    child: TFile,
+    oldParent: TFile | null,
+    newParent: TFile,
+    mutual = true,
+): Promise<ReparentResult> {
+    const result: ReparentResult = { snapshots: [], leftoverFiles: [] }
+    const movedAway = oldParent !== null && oldParent !== newParent
+    const linkNewParent = (content: string) => hasLinkTo(app, child, newParent) ? content : appendLink(content, newParent)
+
+    if (movedAway && oldParent) {
+        await removeAllLinksTo(app, child, oldParent, result, linkNewParent)
+        await removeAllLinksTo(app, oldParent, child, result)
+    } else {
+        await editFile(app, child, linkNewParent, result.snapshots)
+    }
+
+    if (mutual && !hasLinkTo(app, newParent, child)) {
+        await editFile(app, newParent, (content) => appendLink(content, child), result.snapshots)
+    } else if (!mutual) {
+        await removeAllLinksTo(app, newParent, child, result)
+    }
+
+    return result
+}
+
+/**
+ * 按快照还原文件；文件在此期间又被修改过的不还原
+ * 返回未能还原的文件
+ */
+export async function restoreSnapshots(app: App, snapshots: FileSnapshot[]): Promise<TFile[]> {
+    const skipped: TFile[] = []
+
+    for (const snapshot of snapshots.slice().reverse()) {
+        const current = await app.vault.read(snapshot.file)
+        if (current !== snapshot.after) {
+            skipped.push(snapshot.file)
+            continue
+        }
+        await app.vault.modify(snapshot.file, snapshot.before)
+    }
+
+    return skipped
+}
@@ -0,0 +1,250 @@
+import { ZettelIdFormat, ZettelTaskStatus, ZettelTreeNode } from './types'
+import { formatRepeatId, formatSuffix, getChildIdPrefix } from './id-format'
+import { joinNodeKey, NODE_KEY_SEPARATOR } from './utils'
+
+// 链接模式的构建规则。本模块不依赖 obsidian：主线程（tree-builder）以 TFile、
+// Web Worker（snapshot-builder）以文件下标调用同一套规则，两边构建的树保持一致
+
+// 按连接类型分类的子节点候选文件（未排序）
+export interface LinkTreeChildFiles<F> {
+    mutualFiles: F[]
+    backlinkFiles: F[]
+    outgoingFiles: F[]
+}
+
+export interface LinkTreeChildId<F> {
+    file: F
+    id: string
+    frozen: boolean // 编号是否来自 frontmatter
+}
+
+/**
+ * 构建链接树所需的数据和设置
+ */
+export interface LinkTreeSource<F> {
+    idFormat: ZettelIdFormat
+    outgoingDepth: number
+    isOutgoingExpanded: (key: string) => boolean // 该位置的正向引用是否被手动展开
+    // 返回 false 的节点不构建子树，只记录直接子节点数量（pendingChildren）
+    isExpanded?: (key: string) => boolean
+    getPath: (file: F) => string
+    // 双向链接为 Mutual，其余反向链接为 Backlink，其余正向链接为 Outgoing；exclude 中的文件（祖先）被跳过
+    getChildFiles: (file: F, exclude: Set<F>) => LinkTreeChildFiles<F>
+    sortChildren: (parent: F, files: F[]) => F[]
+    getTaskStatus: (file: F) => ZettelTaskStatus
+    getUnresolvedLinks: (file: F) => string[] // 已排序，不显示占位节点时为空
+    // 冻结编号：为已排序的子文件分配编号，返回顺序即显示顺序；未提供时按顺序编号
+    assignChildIds?: (files: F[], prefix: string, useDigits: boolean) => LinkTreeChildId<F>[]
+    markFrozen?: (node: ZettelTreeNode<F>, frozen: boolean) => void
+}
+
+/**
+ * 创建链接模式的递归构建函数
+ */
+export function createLinkTreeBuilder<F>(source: LinkTreeSource<F>) {
+    const format = source.idFormat
+
+    const assignChildIds = (files: F[], prefix: string, useDigits: boolean): LinkTreeChildId<F>[] => {
+        if (source.assignChildIds) return source.assignChildIds(files, prefix, useDigits)
+        return files.map((file, index) => ({
+            file,
+            id: `${prefix}${formatSuffix(index, useDigits, format)}`,
+            frozen: false,
+        }))
+    }
+
+    const buildTree = (
+        file: F,
+        level: number,
+        currentId: string,
+        parentKey: string,
+        ancestors: Set<F> = new Set(),
+        outgoingHops = 0, // 从根节点起路径上经过的正向引用层数
+    ): ZettelTreeNode<F> => {
+        const key = joinNodeKey(parentKey, source.getPath(file))
+        // 顶层节点之后可能使用分支分隔符
+        const isTopLevel = level === 0
+        if (ancestors.has(file)) {
+            // Repeat node: append the first suffix of the other kind (digit -> 'a', letter -> '1')
+            return {
+                file,
+                id: formatRepeatId(currentId, format),
+                key,
+                mutuals: [],
+                backlinks: [],
+                outgoings: [],
+                level,
+                taskStatus: 'none',
+            }
+        }
+
+        const newAncestors = new Set(ancestors)
+        newAncestors.add(file)
+
+        const { mutualFiles, backlinkFiles, outgoingFiles } = source.getChildFiles(file, newAncestors)
+        // 未解析的链接作为占位节点，接在正向引用之后
+        const linktexts = source.getUnresolvedLinks(file)
+
+        const node: ZettelTreeNode<F> = {
+            file,
+            id: currentId,
+            key,
+            mutuals: [],
+            backlinks: [],
+            outgoings: [],
+            level,
+            taskStatus: source.getTaskStatus(file),
+        }
+        if (outgoingHops) {
+            node.outgoingHops = outgoingHops
+        }
+
+        // 懒加载：未展开的节点只记录直接子节点的数量，展开时再构建子树（隐藏的根节点总是展开）
+        if (level >= 0 && source.isExpanded && !source.isExpanded(key)) {
+            const count = mutualFiles.length + backlinkFiles.length + outgoingFiles.length + linktexts.length
+            if (count > 0) {
+                node.pendingChildren = count
+            }
+            return node
+        }
+
+        // 子节点编号的前缀以及使用数字还是字母由编号格式决定
+        const mutualIds = getChildIdPrefix(currentId, 'mutual', isTopLevel, format)
+        const backlinkIds = getChildIdPrefix(currentId, 'backlink', isTopLevel, format)
+        const outgoingIds = getChildIdPrefix(currentId, 'outgoing', isTopLevel, format)
+
+        // Process Mutual Files (mutual separator, default '.', keep digits)
+        assignChildIds(source.sortChildren(file, mutualFiles), mutualIds.prefix, mutualIds.useDigits)
+            .forEach(({ file: childFile, id: childId, frozen }) => {
+                const childNode = buildTree(childFile, level + 1, childId, key, newAncestors, outgoingHops)
+                childNode.linkType = 'mutual'
+                source.markFrozen?.(childNode, frozen)
+                node.mutuals.push(childNode)
+            })
+
+        // Process Backlink Files (Alternating logic based on parent ID)
+        // If parent ends in digit, we switch to letters. If letter, switch to digits.
+        assignChildIds(source.sortChildren(file, backlinkFiles), backlinkIds.prefix, backlinkIds.useDigits)
+            .forEach(({ file: childFile, id: childId, frozen }) => {
+                const childNode = buildTree(childFile, level + 1, childId, key, newAncestors, outgoingHops)
+                childNode.linkType = 'backlink'
+                source.markFrozen?.(childNode, frozen)
+                node.backlinks.push(childNode)
+            })
+
+        // Process Outgoing Files (outgoing separator, default '>', keep digits)
+        // 是否继续递归由 buildOutgoingNode 根据深度限制和手动展开决定
+        const sortedOutgoingFiles = source.sortChildren(file, outgoingFiles)
+        sortedOutgoingFiles.forEach((childFile, index) => {
+            node.outgoings.push(buildOutgoingNode(
+                childFile,
+                level + 1,
+                `${outgoingIds.prefix}${formatSuffix(index, outgoingIds.useDigits, format)}`,
+                key,
+                newAncestors,
+                outgoingHops + 1,
+            ))
+        })
+
+        // 未解析的链接作为占位节点，接在正向引用之后编号
+        linktexts.forEach((linktext, index) => {
+            const position = sortedOutgoingFiles.length + index
+            node.outgoings.push({
+                file: null,
+                id: `${outgoingIds.prefix}${formatSuffix(position, outgoingIds.useDigits, format)}`,
+                key: joinNodeKey(key, linktext),
+                mutuals: [],
+                backlinks: [],
+                outgoings: [],
+                level: level + 1,
+                linkType: 'outgoing',
+                taskStatus: 'none',
+                unresolvedLink: linktext,
+            })
+        })
+
+        return node
+    }
+
+    /**
+     * 构建正向引用节点：路径上的正向引用层数不超过 outgoingDepth，
+     * 或该位置被手动展开时继续递归（祖先检查与其他子节点相同），否则作为叶子
+     */
+    const buildOutgoingNode = (
+        file: F,
+        level: number,
+        id: string,
+        parentKey: string,
+        ancestors: Set<F>,
+        outgoingHops: number,
+    ): ZettelTreeNode<F> => {
+        const key = joinNodeKey(parentKey, source.getPath(file))
+        const traverse = outgoingHops <= source.outgoingDepth || source.isOutgoingExpanded(key)
+
+        const node: ZettelTreeNode<F> = traverse
+            ? buildTree(file, level, id, parentKey, ancestors, outgoingHops)
+            : {
+                file,
+                id,
+                key,
+                mutuals: [],
+                backlinks: [],
+                outgoings: [],
+                level,
+                taskStatus: source.getTaskStatus(file),
+                outgoingHops,
+            }
+        node.linkType = 'outgoing'
+        return node
+    }
+
+    return { buildTree, buildOutgoingNode }
+}
+
+/**
+ * 收集懒加载节点尚未构建的子树中会出现的笔记（不构建节点），用于统计笔记数和未纳入树的笔记。
+ * 按与构建相同的规则沿链接遍历，但不区分路径：同一笔记只按到达时最少的正向引用层数展开一次
+ */
+export function collectPendingFiles<F>(
+    nodes: ZettelTreeNode<F>[],
+    source: Pick<LinkTreeSource<F>, 'outgoingDepth' | 'getPath' | 'getChildFiles'>,
+    expandedOutgoingKeys: string[],
+): Set<F> {
+    const result = new Set<F>()
+    const pending = nodes.filter((n) => n.file !== null && (n.pendingChildren ?? 0) > 0)
+    if (pending.length === 0) return result
+
+    // 手动展开过的正向引用节点（按文件近似，不区分位置）
+    const expandedOutgoingPaths = new Set(expandedOutgoingKeys.map((key) => key.split(NODE_KEY_SEPARATOR).pop()))
+
+    const bestHops = new Map<F, number>()
+    const queue: [F, number][] = []
+    const visit = (file: F, hops: number) => {
+        result.add(file)
+        const best = bestHops.get(file)
+        if (best !== undefined && best <= hops) return
+        bestHops.set(file, hops)
+        queue.push([file, hops])
+    }
+
+    for (const node of pending) {
+        visit(node.file!, node.outgoingHops ?? 0)
+    }
+    while (queue.length > 0) {
+        const [file, hops] = queue.pop()!
+        const { mutualFiles, backlinkFiles, outgoingFiles } = source.getChildFiles(file, new Set([file]))
+        for (const child of [...mutualFiles, ...backlinkFiles]) {
+            visit(child, hops)
+        }
+        for (const child of outgoingFiles) {
+            // 超过递归层数的正向引用只作为叶子出现
+            if (hops + 1 <= source.outgoingDepth || expandedOutgoingPaths.has(source.getPath(child))) {
+                visit(child, hops + 1)
+            } else {
+                result.add(child)
+            }
+        }
+    }
+
+    return result
+}
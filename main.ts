@@ -1,18 +1,55 @@
 import { App, Plugin, PluginSettingTab, Setting, WorkspaceLeaf } from 'obsidian'
-import { VIEW_TYPE_ZETTELKASTEN, ZettelkastenSettings } from './types'
+import {
+  VIEW_TYPE_ZETTELKASTEN,
+  VIEW_TYPE_ZETTELKASTEN_DIAGNOSTICS,
+  ZettelkastenSettings,
+  ZettelRootType,
+  ZettelScopeRule,
+  ZettelScopeRuleKind,
+  ZettelTreeSource,
+} from './types'
 import { ZettelkastenView } from './view'
+import { ZettelDiagnosticsView } from './diagnostics-view'
+import { DEFAULT_FILENAME_ID_PATTERN, LEGACY_FILENAME_ID_PATTERN } from './filename-ids'
+import { DEFAULT_LINK_CONTEXT_RULES } from './link-context'
+import { DEFAULT_ID_FORMAT } from './id-format'
+import { createChildOfActiveNote, renameActiveNoteId } from './note-actions'
+import { NAVIGATION_COMMANDS, navigateFromActiveNote } from './navigation'
+import { parseSortSpec } from './sorter'
 
 
 const DEFAULT_SETTINGS: ZettelkastenSettings = {
-  collapsedIds: [],
+  collapsedKeys: [],
+  treeSource: 'links',
+  filenameIdPattern: DEFAULT_FILENAME_ID_PATTERN,
+  parentField: 'parent',
   rootFile: '',
+  roots: [],
+  scopeRules: [],
+  linkContext: DEFAULT_LINK_CONTEXT_RULES,
+  idFormat: DEFAULT_ID_FORMAT,
+  outgoingDepth: 0,
+  expandedOutgoingKeys: [],
+  showUnresolvedLinks: false,
+  canonicalOccurrence: false,
+  buildInWorker: true,
   sortBy: 'filename', // 'filename', 'created', 'modified', 'yaml'
   sortField: 'title', // YAML字段名，当sortBy为'yaml'时使用
   sortOrder: 'asc', // 'asc' 或 'desc'
+  sortSpec: '',
+  sortMissing: 'last',
+  sortLocale: '',
+  branchSortField: 'zk-sort',
+  manualOrder: false,
+  manualOrderField: 'zk-order',
+  manualRootOrder: [],
+  freezeIds: false,
+  frozenIdField: 'zk-id',
 }
 
 export default class ZettelkastenPlugin extends Plugin {
   settings: ZettelkastenSettings
+  activeZettelKey: string | null = null // 当前笔记所在位置（同一笔记可能出现在多个位置）
 
   async onload() {
     await this.loadSettings()
@@ -22,6 +59,10 @@ export default class ZettelkastenPlugin extends Plugin {
       VIEW_TYPE_ZETTELKASTEN,
       (leaf) => new ZettelkastenView(leaf, this),
     )
+    this.registerView(
+      VIEW_TYPE_ZETTELKASTEN_DIAGNOSTICS,
+      (leaf) => new ZettelDiagnosticsView(leaf, this),
+    )
 
     // 添加命令：打开卢曼笔记视图
     this.addCommand({
@@ -32,25 +73,61 @@ export default class ZettelkastenPlugin extends Plugin {
       },
     })
 
-    // 添加命令：创建新的子笔记
+    // 添加命令：打开结构诊断
+    this.addCommand({
+      id: 'open-diagnostics-view',
+      name: '打开结构诊断（环、多位置、双向引用）',
+      callback: () => {
+        this.activateDiagnosticsView()
+      },
+    })
+
+    // 添加命令：为当前笔记创建新的子笔记
     this.addCommand({
       id: 'create-child-note',
       name: '创建子笔记',
-      callback: async () => {
-        const activeFile = this.app.workspace.getActiveFile()
-        if (activeFile) {
-          this.activateView()
-        }
+      callback: () => {
+        createChildOfActiveNote(this.app, this.settings)
       },
     })
 
-    // 添加命令：重命名笔记编号
+    // 添加命令：修改当前笔记的编号（移动到新编号对应的位置）
     this.addCommand({
       id: 'rename-note-id',
       name: '重命名笔记编号',
       callback: () => {
-        // 这个功能将在视图中实现
-        this.activateView()
+        renameActiveNoteId(this.app, this.settings)
+      },
+    })
+
+    // 添加命令：在树中跳转（父笔记、同级、子笔记、阅读顺序）
+    for (const { target, name } of NAVIGATION_COMMANDS) {
+      this.addCommand({
+        id: `go-to-${target}`,
+        name,
+        callback: async () => {
+          const node = await navigateFromActiveNote(
+            this.app,
+            this.settings,
+            target,
+            this.activeZettelKey,
+          )
+          if (node) {
+            this.setActiveZettelKey(node.key)
+          }
+        },
+      })
+    }
+
+    // 添加命令：撤销上一次拖放移动
+    this.addCommand({
+      id: 'undo-move-note',
+      name: '撤销上一次拖放移动',
+      callback: async () => {
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_ZETTELKASTEN)[0]
+        if (leaf?.view instanceof ZettelkastenView) {
+          await leaf.view.undoLastMove()
+        }
       },
     })
 
@@ -88,12 +165,52 @@ export default class ZettelkastenPlugin extends Plugin {
     }
   }
 
+  /**
+   * 在编辑区打开结构诊断视图；已打开时重新收集并激活
+   */
+  async activateDiagnosticsView() {
+    const { workspace } = this.app
+
+    const existing = workspace.getLeavesOfType(VIEW_TYPE_ZETTELKASTEN_DIAGNOSTICS)[0]
+    if (existing) {
+      if (existing.view instanceof ZettelDiagnosticsView) {
+        existing.view.render()
+      }
+      workspace.revealLeaf(existing)
+      return
+    }
+
+    const leaf = workspace.getLeaf('tab')
+    await leaf.setViewState({
+      type: VIEW_TYPE_ZETTELKASTEN_DIAGNOSTICS,
+      active: true,
+    })
+    workspace.revealLeaf(leaf)
+  }
+
+  /**
+   * 记录当前笔记所在的位置，并同步到视图的高亮
+   */
+  setActiveZettelKey(key: string | null) {
+    this.activeZettelKey = key
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_ZETTELKASTEN)) {
+      if (leaf.view instanceof ZettelkastenView) {
+        leaf.view.revealZettelKey(key)
+      }
+    }
+  }
+
   onunload() {
     // 清理工作
   }
 
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData())
+    this.settings.linkContext = Object.assign({}, DEFAULT_LINK_CONTEXT_RULES, this.settings.linkContext)
+    this.settings.idFormat = Object.assign({}, DEFAULT_ID_FORMAT, this.settings.idFormat)
+    if (this.settings.filenameIdPattern === LEGACY_FILENAME_ID_PATTERN) {
+      this.settings.filenameIdPattern = DEFAULT_FILENAME_ID_PATTERN
+    }
   }
 
   async saveSettings() {
@@ -115,9 +232,55 @@ class ZettelkastenSettingTab extends PluginSettingTab {
 
     containerEl.createEl('h2', { text: '卢曼笔记导航器设置' })
 
+    new Setting(containerEl)
+      .setName('层级来源')
+      .setDesc('链接：由双向/反向/正向链接推导层级；文件名编号：由文件名中的卢曼编号推导层级；frontmatter 父节点：由笔记声明的父节点推导层级。后两种模式下链接只作为标注显示')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('links', '链接')
+          .addOption('filename', '文件名编号')
+          .addOption('frontmatter', 'frontmatter 父节点')
+          .setValue(this.plugin.settings.treeSource)
+          .onChange(async (value: string) => {
+            this.plugin.settings.treeSource = value as ZettelTreeSource
+            await this.plugin.saveSettings()
+            this.display()
+          }),
+      )
+
+    if (this.plugin.settings.treeSource === 'filename') {
+      new Setting(containerEl)
+        .setName('文件名编号规则')
+        .setDesc('匹配不含扩展名的文件路径的正则表达式（不区分大小写），取第一个捕获组作为编号；编号由交替的数字/字母段组成，可用 `.` 或 `/` 分隔')
+        .addText((text) =>
+          text
+            .setPlaceholder(DEFAULT_FILENAME_ID_PATTERN)
+            .setValue(this.plugin.settings.filenameIdPattern)
+            .onChange(async (value) => {
+              this.plugin.settings.filenameIdPattern = value.trim() || DEFAULT_FILENAME_ID_PATTERN
+              await this.plugin.saveSettings()
+            }),
+        )
+    }
+
+    if (this.plugin.settings.treeSource === 'frontmatter') {
+      new Setting(containerEl)
+        .setName('父节点字段名')
+        .setDesc('声明父节点的 frontmatter 字段，值为链接或文件名，多个父节点时使用列表')
+        .addText((text) =>
+          text
+            .setPlaceholder('例如: parent')
+            .setValue(this.plugin.settings.parentField)
+            .onChange(async (value) => {
+              this.plugin.settings.parentField = value.trim() || DEFAULT_SETTINGS.parentField
+              await this.plugin.saveSettings()
+            }),
+        )
+    }
+
     new Setting(containerEl)
       .setName('根文件')
-      .setDesc('指定作为树根的文件名（不含扩展名）')
+      .setDesc('指定作为树根的文件名（不含扩展名）；配置了下方的根列表时不生效')
       .addText((text) =>
         text
           .setPlaceholder('例如: 1a')
@@ -128,6 +291,60 @@ class ZettelkastenSettingTab extends PluginSettingTab {
           }),
       )
 
+    this.displayRoots(containerEl)
+    this.displayScopeRules(containerEl)
+    this.displayLinkContext(containerEl)
+
+    new Setting(containerEl)
+      .setName('显示未解析的链接')
+      .setDesc('将指向不存在笔记的链接显示为占位条目，点击即可在父笔记所在目录创建该笔记（链接模式）')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showUnresolvedLinks)
+          .onChange(async (value) => {
+            this.plugin.settings.showUnresolvedLinks = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('正向引用递归层数')
+      .setDesc('从根节点起的路径上最多经过几层正向引用（>）节点仍继续展开其子节点（中间的反向链接、双向引用不重新计数），0 表示正向引用只显示为叶子；也可以在视图中逐个展开')
+      .addText((text) =>
+        text
+          .setPlaceholder('0')
+          .setValue(this.plugin.settings.outgoingDepth.toString())
+          .onChange(async (value) => {
+            const depth = parseInt(value, 10)
+            this.plugin.settings.outgoingDepth = Number.isNaN(depth) ? 0 : Math.max(0, depth)
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('只完整显示首次出现')
+      .setDesc('同一笔记出现在多个位置时，只在第一个位置展开其子树，其余位置显示为指向它的引用条目')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.canonicalOccurrence)
+          .onChange(async (value) => {
+            this.plugin.settings.canonicalOccurrence = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('后台构建')
+      .setDesc('链接模式下在后台线程中完整重建树，构建期间不阻塞输入；有新的变化时放弃尚未完成的构建。开启冻结编号时在主线程构建')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.buildInWorker)
+          .onChange(async (value) => {
+            this.plugin.settings.buildInWorker = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
     let yamlFieldSetting: Setting | null = null
 
     new Setting(containerEl)
@@ -198,5 +415,392 @@ class ZettelkastenSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings()
           }),
       )
+
+    const sortSpecSetting = new Setting(containerEl)
+      .setName('排序规则')
+      .setDesc('多个排序键用逗号分隔，前面的优先；字段为 filename、created、modified 或 yaml:字段名，可加 asc / desc、natural（数字按数值）、missing-first / missing-last。配置后替代上面的排序方式和顺序')
+      .addText((text) =>
+        text
+          .setPlaceholder('例如: yaml:order asc, filename natural')
+          .setValue(this.plugin.settings.sortSpec)
+          .onChange(async (value) => {
+            this.plugin.settings.sortSpec = value
+            await this.plugin.saveSettings()
+            this.showSortSpecErrors(sortSpecSetting, value)
+          }),
+      )
+    this.showSortSpecErrors(sortSpecSetting, this.plugin.settings.sortSpec)
+
+    new Setting(containerEl)
+      .setName('缺失值位置')
+      .setDesc('排序字段未设置的笔记排在最前还是最后；可在排序规则中用 missing-first / missing-last 单独指定')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('last', '最后')
+          .addOption('first', '最前')
+          .setValue(this.plugin.settings.sortMissing)
+          .onChange(async (value: string) => {
+            this.plugin.settings.sortMissing = value as 'first' | 'last'
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('排序语言')
+      .setDesc('比较标题时使用的语言区域，例如 zh-CN 按拼音排列中文；留空使用系统默认')
+      .addText((text) =>
+        text
+          .setPlaceholder('例如: zh-CN')
+          .setValue(this.plugin.settings.sortLocale)
+          .onChange(async (value) => {
+            this.plugin.settings.sortLocale = value.trim()
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('分支排序字段名')
+      .setDesc('父笔记可以在该 frontmatter 字段中为自己的子笔记声明排序规则（语法同上），例如 zk-sort: created desc')
+      .addText((text) =>
+        text
+          .setPlaceholder('例如: zk-sort')
+          .setValue(this.plugin.settings.branchSortField)
+          .onChange(async (value) => {
+            this.plugin.settings.branchSortField = value.trim() || DEFAULT_SETTINGS.branchSortField
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('手动排序')
+      .setDesc('在视图中用 ↑/↓ 按钮、Alt+↑/↓ 或在同一父节点内拖动调整顺序，顺序按父节点保存；未调整过的笔记按上面的排序排在后面（文件名编号模式除外）')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.manualOrder)
+          .onChange(async (value) => {
+            this.plugin.settings.manualOrder = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('排序字段名')
+      .setDesc('父笔记中保存子笔记顺序（链接路径列表）的 frontmatter 字段')
+      .addText((text) =>
+        text
+          .setPlaceholder('例如: zk-order')
+          .setValue(this.plugin.settings.manualOrderField)
+          .onChange(async (value) => {
+            this.plugin.settings.manualOrderField = value.trim() || DEFAULT_SETTINGS.manualOrderField
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    this.displayIdFormat(containerEl)
+
+    new Setting(containerEl)
+      .setName('冻结编号')
+      .setDesc('将分配的编号写入 frontmatter，重建时复用已保存的编号，新笔记只追加下一个空闲编号（仅链接模式）')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.freezeIds)
+          .onChange(async (value) => {
+            this.plugin.settings.freezeIds = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('编号字段名')
+      .setDesc('保存冻结编号的 frontmatter 字段')
+      .addText((text) =>
+        text
+          .setPlaceholder('例如: zk-id')
+          .setValue(this.plugin.settings.frozenIdField)
+          .onChange(async (value) => {
+            this.plugin.settings.frozenIdField = value.trim() || DEFAULT_SETTINGS.frozenIdField
+            await this.plugin.saveSettings()
+          }),
+      )
+  }
+
+  /**
+   * 根列表（森林模式）：每一项为一个文件、一个标签下的所有笔记或一个文件夹下的所有笔记
+   */
+  private displayRoots(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName('根列表')
+      .setDesc('每个根作为独立的顶层分支显示，依次编号为 1, 2, …')
+      .addButton((button) =>
+        button.setButtonText('添加根').onClick(async () => {
+          this.plugin.settings.roots = [
+            ...this.plugin.settings.roots,
+            { type: 'file', value: '' },
+          ]
+          await this.plugin.saveSettings()
+          this.display()
+        }),
+      )
+
+    this.plugin.settings.roots.forEach((spec, index) => {
+      new Setting(containerEl)
+        .setClass('zk-root-setting')
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption('file', '文件')
+            .addOption('tag', '标签')
+            .addOption('folder', '文件夹')
+            .setValue(spec.type)
+            .onChange(async (value: string) => {
+              spec.type = value as ZettelRootType
+              await this.plugin.saveSettings()
+            }),
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('文件名 / #标签 / 文件夹路径')
+            .setValue(spec.value)
+            .onChange(async (value) => {
+              spec.value = value
+              await this.plugin.saveSettings()
+            }),
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('移除')
+            .onClick(async () => {
+              this.plugin.settings.roots = this.plugin.settings.roots.filter(
+                (_, i) => i !== index,
+              )
+              await this.plugin.saveSettings()
+              this.display()
+            }),
+        )
+    })
+  }
+
+  /**
+   * 范围规则：限定参与构建的笔记，同时作用于候选文件和链接分类
+   */
+  private displayScopeRules(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName('范围规则')
+      .setDesc('存在包含规则时只保留匹配任一包含规则的笔记；匹配任一排除规则的笔记不会出现在树中。文件夹支持 * 和 ** 通配，frontmatter 支持 key、key=value、key!=value')
+      .addButton((button) =>
+        button.setButtonText('添加规则').onClick(async () => {
+          this.plugin.settings.scopeRules = [
+            ...this.plugin.settings.scopeRules,
+            { mode: 'exclude', kind: 'folder', value: '' },
+          ]
+          await this.plugin.saveSettings()
+          this.display()
+        }),
+      )
+
+    this.plugin.settings.scopeRules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setClass('zk-scope-setting')
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption('include', '包含')
+            .addOption('exclude', '排除')
+            .setValue(rule.mode)
+            .onChange(async (value: string) => {
+              rule.mode = value as ZettelScopeRule['mode']
+              await this.plugin.saveSettings()
+            }),
+        )
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption('folder', '文件夹')
+            .addOption('tag', '标签')
+            .addOption('frontmatter', 'Frontmatter')
+            .setValue(rule.kind)
+            .onChange(async (value: string) => {
+              rule.kind = value as ZettelScopeRuleKind
+              await this.plugin.saveSettings()
+            }),
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('Templates/** / #daily / type=literature')
+            .setValue(rule.value)
+            .onChange(async (value) => {
+              rule.value = value
+              await this.plugin.saveSettings()
+            }),
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('移除')
+            .onClick(async () => {
+              this.plugin.settings.scopeRules = this.plugin.settings.scopeRules.filter(
+                (_, i) => i !== index,
+              )
+              await this.plugin.saveSettings()
+              this.display()
+            }),
+        )
+    })
+  }
+
+  /**
+   * 链接上下文规则：决定哪些位置的链接参与构建
+   */
+  private displayLinkContext(containerEl: HTMLElement) {
+    const rules = this.plugin.settings.linkContext
+    const parseList = (value: string) =>
+      value.split(',').map((v) => v.trim()).filter((v) => v !== '')
+
+    new Setting(containerEl)
+      .setName('计入嵌入')
+      .setDesc('`![[...]]` 形式的嵌入是否作为链接参与构建')
+      .addToggle((toggle) =>
+        toggle.setValue(rules.includeEmbeds).onChange(async (value) => {
+          rules.includeEmbeds = value
+          await this.plugin.saveSettings()
+        }),
+      )
+
+    new Setting(containerEl)
+      .setName('计入 frontmatter 链接')
+      .setDesc('frontmatter 属性中的链接是否参与构建')
+      .addToggle((toggle) =>
+        toggle.setValue(rules.includeFrontmatterLinks).onChange(async (value) => {
+          rules.includeFrontmatterLinks = value
+          await this.plugin.saveSettings()
+        }),
+      )
+
+    new Setting(containerEl)
+      .setName('忽略 callout 中的链接')
+      .addToggle((toggle) =>
+        toggle.setValue(rules.ignoreCallouts).onChange(async (value) => {
+          rules.ignoreCallouts = value
+          await this.plugin.saveSettings()
+        }),
+      )
+
+    new Setting(containerEl)
+      .setName('只计入这些标题下的链接')
+      .setDesc('逗号分隔的标题文本（不含 #，不区分大小写），包括其子标题；留空表示不限制')
+      .addText((text) =>
+        text
+          .setPlaceholder('例如: Parent, 上级')
+          .setValue(rules.onlyHeadings.join(', '))
+          .onChange(async (value) => {
+            rules.onlyHeadings = parseList(value)
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('忽略这些标题下的链接')
+      .setDesc('逗号分隔的标题文本，包括其子标题')
+      .addText((text) =>
+        text
+          .setPlaceholder('例如: See also, 参考')
+          .setValue(rules.ignoreHeadings.join(', '))
+          .onChange(async (value) => {
+            rules.ignoreHeadings = parseList(value)
+            await this.plugin.saveSettings()
+          }),
+      )
+  }
+
+  /**
+   * 编号格式：分隔符、序号和字母大小写（文件名编号模式下编号来自文件名，不受影响）
+   */
+  private displayIdFormat(containerEl: HTMLElement) {
+    const format = this.plugin.settings.idFormat
+    const parseCount = (value: string, fallback: number) => {
+      const count = parseInt(value, 10)
+      return Number.isNaN(count) ? fallback : Math.max(0, count)
+    }
+
+    type SeparatorField = 'backlinkSeparator' | 'mutualSeparator' | 'outgoingSeparator' | 'branchSeparator'
+    const separators: [SeparatorField, string, string][] = [
+      ['backlinkSeparator', '反向链接分隔符', '默认为空，数字和字母交替（1a1）'],
+      ['mutualSeparator', '双向引用分隔符', '默认 .（1a.1）'],
+      ['outgoingSeparator', '正向引用分隔符', '默认 >（1a>1）'],
+      ['branchSeparator', '分支分隔符', '顶层编号与其子节点之间的分隔符，如 / 得到 Luhmann 式的 21/3d7；设置后子节点从数字重新开始'],
+    ]
+    for (const [field, name, desc] of separators) {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addText((text) =>
+          text
+            .setPlaceholder(DEFAULT_ID_FORMAT[field] || '（空）')
+            .setValue(format[field])
+            .onChange(async (value) => {
+              format[field] = value.trim()
+              await this.plugin.saveSettings()
+            }),
+        )
+    }
+
+    new Setting(containerEl)
+      .setName('根编号前缀')
+      .setDesc('加在顶层编号前，例如 ZK 得到 ZK1, ZK2, …')
+      .addText((text) =>
+        text
+          .setPlaceholder('（空）')
+          .setValue(format.rootPrefix)
+          .onChange(async (value) => {
+            format.rootPrefix = value.trim()
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('数字起始序号')
+      .setDesc('数字段从几开始，默认 1')
+      .addText((text) =>
+        text
+          .setPlaceholder('1')
+          .setValue(format.startIndex.toString())
+          .onChange(async (value) => {
+            format.startIndex = parseCount(value, DEFAULT_ID_FORMAT.startIndex)
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('数字最小位数')
+      .setDesc('不足时补零，例如 2 得到 01, 02, …；0 表示不补零')
+      .addText((text) =>
+        text
+          .setPlaceholder('0')
+          .setValue(format.digitPadding.toString())
+          .onChange(async (value) => {
+            format.digitPadding = parseCount(value, DEFAULT_ID_FORMAT.digitPadding)
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('字母大写')
+      .setDesc('字母段使用 A, B, …, AA')
+      .addToggle((toggle) =>
+        toggle.setValue(format.uppercaseLetters).onChange(async (value) => {
+          format.uppercaseLetters = value
+          await this.plugin.saveSettings()
+        }),
+      )
+  }
+
+  /**
+   * 在排序规则的说明下方提示无法解析的条目
+   */
+  private showSortSpecErrors(setting: Setting, spec: string) {
+    const { invalid } = parseSortSpec(spec)
+    let errorEl = setting.descEl.querySelector('.zk-setting-error') as HTMLElement | null
+    if (!errorEl) {
+      errorEl = setting.descEl.createDiv({ cls: 'zk-setting-error' })
+    }
+    errorEl.setText(invalid.length > 0 ? `无法解析，已忽略: ${invalid.join(', ')}` : '')
   }
 }
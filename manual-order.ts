@@ -0,0 +1,104 @@
+import { App, TFile } from 'obsidian'
+import { FileSnapshot } from './link-editor'
+import { ZettelkastenSettings } from './types'
+
+/**
+ * 读取父笔记在 frontmatter 中保存的子笔记顺序（链接路径列表），解析为文件；
+ * 未设置、不是列表或无法解析的项被忽略
+ */
+export function getChildOrder(app: App, parent: TFile, field: string): TFile[] {
+    const value = app.metadataCache.getFileCache(parent)?.frontmatter?.[field]
+    if (!Array.isArray(value)) return []
+
+    const files: TFile[] = []
+    for (const item of value) {
+        if (typeof item !== 'string') continue
+        const file = app.metadataCache.getFirstLinkpathDest(item, parent.path)
+        if (file) files.push(file)
+    }
+    return files
+}
+
+/**
+ * 没有父笔记的顶层节点的手动顺序（保存在设置中），只返回 files 中的文件
+ */
+function getRootOrder(files: TFile[], settings: ZettelkastenSettings): TFile[] {
+    const byPath = new Map(files.map((file) => [file.path, file]))
+    return settings.manualRootOrder
+        .map((path) => byPath.get(path))
+        .filter((file): file is TFile => file !== undefined)
+}
+
+/**
+ * 按父笔记保存的顺序重新排列已排序的同级文件（parent 为 null 时使用顶层顺序）：
+ * 列表中的笔记按列表顺序排在前面，其余笔记保持原来的相对顺序排在后面
+ */
+export function applyManualOrder(
+    app: App,
+    sortedFiles: TFile[],
+    parent: TFile | null,
+    settings: ZettelkastenSettings,
+): TFile[] {
+    const order = parent ? getChildOrder(app, parent, settings.manualOrderField) : getRootOrder(sortedFiles, settings)
+    return sortByManualOrder(sortedFiles, order)
+}
+
+/**
+ * applyManualOrder 的排列规则，不依赖 obsidian，后台构建时在 Worker 中使用
+ */
+export function sortByManualOrder<T>(sortedItems: T[], order: T[]): T[] {
+    if (order.length === 0) return sortedItems
+
+    const positions = new Map<T, number>()
+    order.forEach((item, index) => {
+        if (!positions.has(item)) positions.set(item, index)
+    })
+
+    // Array.prototype.sort 是稳定排序，相等时保持原顺序
+    return sortedItems.sort((a, b) => {
+        const orderA = positions.get(a) ?? null
+        const orderB = positions.get(b) ?? null
+        if (orderA === null && orderB === null) return 0
+        if (orderA === null) return 1
+        if (orderB === null) return -1
+        return orderA - orderB
+    })
+}
+
+/**
+ * 将 file 移动到同级列表中的 targetIndex 位置，返回新的顺序（不修改原列表）
+ */
+export function moveSibling(siblings: TFile[], file: TFile, targetIndex: number): TFile[] {
+    const result = siblings.filter((f) => f !== file)
+    const index = Math.max(0, Math.min(result.length, targetIndex))
+    result.splice(index, 0, file)
+    return result
+}
+
+/**
+ * 把同级笔记的新顺序写入父笔记的排序字段：列表中原有的这些笔记被移除，按新顺序追加在末尾
+ * （其他连接类型分组的笔记保留原来的相对顺序，分组之间互不影响）
+ * 返回被修改文件的快照，用于撤销
+ */
+export async function writeChildOrder(
+    app: App,
+    parent: TFile,
+    siblings: TFile[],
+    field: string,
+): Promise<FileSnapshot[]> {
+    const siblingSet = new Set(siblings)
+    const links = siblings.map((file) => app.metadataCache.fileToLinktext(file, parent.path, true))
+
+    const before = await app.vault.read(parent)
+    await app.fileManager.processFrontMatter(parent, (frontmatter) => {
+        const current: unknown[] = Array.isArray(frontmatter[field]) ? frontmatter[field] : []
+        const kept = current.filter((item) => {
+            if (typeof item !== 'string') return true
+            const file = app.metadataCache.getFirstLinkpathDest(item, parent.path)
+            return !file || !siblingSet.has(file)
+        })
+        frontmatter[field] = [...kept, ...links]
+    })
+    const after = await app.vault.read(parent)
+    return after === before ? [] : [{ file: parent, before, after }]
+}
@@ -1,5 +1,6 @@
 // 通用输入模态框
-import { Modal, TextComponent } from 'obsidian'
+import { App, FuzzySuggestModal, Modal, TextComponent } from 'obsidian'
+import { ZettelFileNode } from './types'
 
 export class NoteInputModal extends Modal {
   currentName: string
@@ -84,3 +85,33 @@ export class NoteInputModal extends Modal {
     contentEl.empty()
   }
 }
+
+// 选择树中节点的模态框（按编号和标题模糊搜索）
+export class ZettelNodeSuggestModal extends FuzzySuggestModal<ZettelFileNode> {
+  nodes: ZettelFileNode[]
+  onChoose: (node: ZettelFileNode) => void
+
+  constructor(
+    app: App,
+    nodes: ZettelFileNode[],
+    placeholder: string,
+    onChoose: (node: ZettelFileNode) => void,
+  ) {
+    super(app)
+    this.nodes = nodes
+    this.onChoose = onChoose
+    this.setPlaceholder(placeholder)
+  }
+
+  getItems(): ZettelFileNode[] {
+    return this.nodes
+  }
+
+  getItemText(node: ZettelFileNode): string {
+    return node.id ? `${node.id} ${node.file.basename}` : node.file.basename
+  }
+
+  onChooseItem(node: ZettelFileNode) {
+    this.onChoose(node)
+  }
+}
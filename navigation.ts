@@ -0,0 +1,115 @@
+import { App, Notice, TFile } from 'obsidian'
+import { ZettelkastenSettings, ZettelNode } from './types'
+import { buildZettelkastenTree, collectZettelNodes, findParentZettelNode } from './tree-builder'
+
+export type ZettelNavigationTarget =
+  | 'parent'
+  | 'next-sibling'
+  | 'previous-sibling'
+  | 'first-child'
+  | 'next'
+  | 'previous'
+
+export const NAVIGATION_COMMANDS: { target: ZettelNavigationTarget; name: string }[] = [
+  { target: 'parent', name: '跳转到父笔记' },
+  { target: 'next-sibling', name: '跳转到下一个同级笔记' },
+  { target: 'previous-sibling', name: '跳转到上一个同级笔记' },
+  { target: 'first-child', name: '跳转到第一个子笔记' },
+  { target: 'next', name: '跳转到下一篇笔记（阅读顺序）' },
+  { target: 'previous', name: '跳转到上一篇笔记（阅读顺序）' },
+]
+
+/**
+ * 子节点的显示顺序：Mutual -> Backlink -> Outgoing（占位节点不作为跳转目标）
+ */
+function getChildren(node: ZettelNode): ZettelNode[] {
+  return [...node.mutuals, ...node.backlinks, ...node.outgoings].filter((n) => n.file !== null)
+}
+
+/**
+ * 确定当前笔记所在的位置：同一笔记可能出现在多个位置，
+ * 优先使用上一次跳转/点击记录的位置，否则取第一次出现的位置
+ */
+export function resolveCurrentNode(
+  nodes: ZettelNode[],
+  file: TFile,
+  lastKey: string | null,
+): ZettelNode | null {
+  const occurrences = nodes.filter((n) => n.file === file && n.id !== '')
+  return occurrences.find((n) => n.key === lastKey) || occurrences[0] || null
+}
+
+/**
+ * 计算跳转目标
+ */
+export function findNavigationTarget(
+  roots: ZettelNode[],
+  nodes: ZettelNode[],
+  current: ZettelNode,
+  target: ZettelNavigationTarget,
+): ZettelNode | null {
+  switch (target) {
+    case 'parent': {
+      const parent = findParentZettelNode(nodes, current)
+      // 隐藏的根节点不作为跳转目标
+      return parent && parent.id !== '' ? parent : null
+    }
+
+    case 'next-sibling':
+    case 'previous-sibling': {
+      const parent = findParentZettelNode(nodes, current)
+      const siblings = parent ? getChildren(parent) : roots
+      const index = siblings.indexOf(current)
+      const offset = target === 'next-sibling' ? 1 : -1
+      return siblings[index + offset] || null
+    }
+
+    case 'first-child':
+      return getChildren(current)[0] || null
+
+    case 'next':
+    case 'previous': {
+      const readingOrder = nodes.filter((n) => n.id !== '' && n.file !== null)
+      const index = readingOrder.indexOf(current)
+      const offset = target === 'next' ? 1 : -1
+      return readingOrder[index + offset] || null
+    }
+  }
+}
+
+/**
+ * 从当前编辑的笔记跳转到树中的相邻笔记
+ * 返回跳转到的节点，以便记录所在位置
+ */
+export async function navigateFromActiveNote(
+  app: App,
+  settings: ZettelkastenSettings,
+  target: ZettelNavigationTarget,
+  lastKey: string | null,
+): Promise<ZettelNode | null> {
+  const activeFile = app.workspace.getActiveFile()
+  if (!activeFile) {
+    new Notice('请先打开一篇笔记')
+    return null
+  }
+
+  const roots = buildZettelkastenTree(app, settings)
+  const nodes = collectZettelNodes(roots)
+  const current = resolveCurrentNode(nodes, activeFile, lastKey)
+  if (!current) {
+    new Notice('当前笔记不在树中')
+    return null
+  }
+
+  const next = findNavigationTarget(roots, nodes, current, target)
+  if (!next || !next.file) {
+    new Notice('没有可跳转的笔记')
+    return null
+  }
+
+  const leaf = app.workspace.getMostRecentLeaf()
+  if (leaf) {
+    await leaf.openFile(next.file)
+  }
+  return next
+}
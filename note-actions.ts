@@ -0,0 +1,301 @@
+import { App, Notice, normalizePath, TFile } from 'obsidian'
+import { NoteInputModal } from './modal'
+import { ZettelFileNode, ZettelkastenSettings, ZettelNode } from './types'
+import { buildZettelkastenTree, collectZettelNodes, findParentZettelNode } from './tree-builder'
+import { collectFrozenIds } from './frozen-ids'
+import { reparentNote, ReparentResult } from './link-editor'
+import { reparentByParentField } from './parent-field'
+import { NODE_KEY_SEPARATOR } from './utils'
+import { sortFiles } from './sorter'
+import { formatSuffix, getChildIdPrefix, parseSuffix, parseZettelId } from './id-format'
+import { moveSibling, writeChildOrder } from './manual-order'
+
+/**
+ * 弹出输入框，在父笔记所在目录新建子笔记：
+ * 子笔记开头写入父笔记的链接，父笔记末尾追加子笔记的链接，然后打开子笔记
+ * frontmatter 父节点模式下改为在子笔记的父节点字段中声明父笔记
+ */
+export function openCreateChildModal(
+  app: App,
+  parent: TFile,
+  settings: ZettelkastenSettings,
+  onCreated?: (file: TFile) => void,
+) {
+  const modal = new NoteInputModal(
+    app,
+    '',
+    '新建子笔记',
+    async (newName) => {
+      if (!newName.trim()) {
+        new Notice('文件名不能为空')
+        return
+      }
+
+      try {
+        // 获取父条目的目录路径
+        const parentPath = parent.path
+        const parentDir = parentPath.substring(0, parentPath.lastIndexOf('/'))
+        const newFilePath = parentDir
+          ? `${parentDir}/${newName}.md`
+          : `${newName}.md`
+
+        // 在子条目文件中添加父条目的引用
+        const parentLink = `[[${parent.basename}]]`
+        const useParentField = settings.treeSource === 'frontmatter'
+        const initialContent = useParentField
+          ? `---\n${settings.parentField}: "${parentLink}"\n---\n\n`
+          : `${parentLink}\n\n`
+
+        // 创建新文件在父条目相同的目录中
+        const newFile = await app.vault.create(
+          newFilePath,
+          initialContent,
+        )
+
+        // 在父文件中添加引用到新文件
+        if (!useParentField) {
+          const parentContent = await app.vault.read(parent)
+          const childLink = `[[${newName}]]`
+          const newParentContent = parentContent + '\n' + childLink
+          await app.vault.modify(parent, newParentContent)
+        }
+
+        // 打开新文件
+        const leaf = app.workspace.getMostRecentLeaf()
+        if (leaf) {
+          await leaf.openFile(newFile)
+        }
+
+        onCreated?.(newFile)
+      } catch (error) {
+        console.error('创建子笔记失败:', error)
+        new Notice('创建子笔记失败')
+      }
+    },
+  )
+
+  modal.open()
+}
+
+/**
+ * 按当前的层级来源把笔记移动到新的父笔记下：
+ * frontmatter 父节点模式改写父节点字段，链接模式改写正文链接（mutual 见 reparentNote）
+ * 返回被修改文件的快照（用于撤销）和仍有链接未能删除的文件；文件名编号模式下层级由文件名决定，调用方需自行处理
+ */
+export async function reparentInTree(
+  app: App,
+  settings: ZettelkastenSettings,
+  child: TFile,
+  oldParent: TFile | null,
+  newParent: TFile,
+  mutual = true,
+): Promise<ReparentResult> {
+  if (settings.treeSource === 'frontmatter') {
+    const snapshots = await reparentByParentField(app, child, oldParent, newParent, settings.parentField)
+    return { snapshots, leftoverFiles: [] }
+  }
+  return reparentNote(app, child, oldParent, newParent, mutual)
+}
+
+/**
+ * 为未解析的链接创建笔记并打开：放在父笔记所在目录（链接文本带路径时按该路径），
+ * 与新建子笔记一样在开头写入父笔记的链接；父笔记中原有的链接随之解析到新笔记
+ */
+export async function createNoteFromUnresolvedLink(app: App, parent: TFile, linktext: string): Promise<TFile> {
+  const name = linktext.replace(/\.md$/, '')
+  const parentDir = parent.parent?.path ?? ''
+  const newFilePath = normalizePath(name.includes('/') ? `${name}.md` : `${parentDir}/${name}.md`)
+
+  const folder = newFilePath.substring(0, newFilePath.lastIndexOf('/'))
+  if (folder && !app.vault.getAbstractFileByPath(folder)) {
+    await app.vault.createFolder(folder)
+  }
+
+  const newFile = await app.vault.create(newFilePath, `[[${parent.basename}]]\n\n`)
+
+  const leaf = app.workspace.getMostRecentLeaf()
+  if (leaf) {
+    await leaf.openFile(newFile)
+  }
+  return newFile
+}
+
+/**
+ * 查找文件在树中的第一个位置（不含隐藏的根节点）
+ */
+function findFileNode(nodes: ZettelNode[], file: TFile): ZettelFileNode | null {
+  return nodes.find((n): n is ZettelFileNode => n.file === file && n.id !== '') || null
+}
+
+/**
+ * 命令：为当前编辑的笔记新建子笔记
+ */
+export function createChildOfActiveNote(app: App, settings: ZettelkastenSettings) {
+  const activeFile = app.workspace.getActiveFile()
+  if (!activeFile || activeFile.extension !== 'md') {
+    new Notice('请先打开一篇笔记')
+    return
+  }
+
+  openCreateChildModal(app, activeFile, settings)
+}
+
+/**
+ * 命令：修改当前笔记的编号，即把它移动到新编号对应的位置
+ * - 编号的前缀决定新的父笔记，分隔符决定关系：`.` 为双向引用，无分隔符为反向链接
+ *   （frontmatter 父节点模式下改写父节点字段，分隔符不影响关系）
+ * - 冻结编号模式下同时把新编号写入 frontmatter；开启手动排序时把最后一段对应的同级位置写入父笔记的排序字段；
+ *   两者都未开启时同级位置由排序决定，只接受与排序后的位置一致的编号
+ * - 文件名编号模式下直接重命名文件
+ */
+export function renameActiveNoteId(app: App, settings: ZettelkastenSettings) {
+  const activeFile = app.workspace.getActiveFile()
+  if (!activeFile || activeFile.extension !== 'md') {
+    new Notice('请先打开一篇笔记')
+    return
+  }
+
+  const nodes = collectZettelNodes(buildZettelkastenTree(app, settings))
+  const node = findFileNode(nodes, activeFile)
+  if (!node) {
+    new Notice('当前笔记不在树中')
+    return
+  }
+
+  const modal = new NoteInputModal(
+    app,
+    node.id,
+    `修改编号: ${activeFile.basename}`,
+    async (newId: string) => {
+      try {
+        await applyZettelId(app, settings, nodes, node, newId.trim())
+      } catch (error) {
+        console.error('修改编号失败:', error)
+        new Notice('修改编号失败')
+      }
+    },
+  )
+  modal.open()
+}
+
+async function applyZettelId(
+  app: App,
+  settings: ZettelkastenSettings,
+  nodes: ZettelNode[],
+  node: ZettelFileNode,
+  newId: string,
+) {
+  if (newId === node.id) return
+
+  if (settings.treeSource === 'filename') {
+    await renameFilenameId(app, node, newId)
+    return
+  }
+
+  const parsed = parseZettelId(newId, settings.idFormat)
+  if (!parsed || parsed.linkType === 'outgoing') {
+    new Notice(`无效的编号: ${newId}`)
+    return
+  }
+
+  const newParent = nodes.find(
+    (n): n is ZettelFileNode => n.id === parsed.parentId && n.linkType !== 'outgoing' && n.file !== null,
+  )
+  if (!newParent) {
+    new Notice(`找不到编号为 ${parsed.parentId || '(根)'} 的父笔记`)
+    return
+  }
+
+  // 不能移动到自身或自己的子树中
+  if (newParent.file === node.file
+    || newParent.key.startsWith(`${node.key}${NODE_KEY_SEPARATOR}`)) {
+    new Notice('不能移动到自身的子树中')
+    return
+  }
+
+  if (settings.freezeIds) {
+    const claimedBy = (collectFrozenIds(app, settings).get(newId) || [])
+      .filter((f) => f !== node.file)
+    if (claimedBy.length > 0) {
+      new Notice(`编号 ${newId} 已被「${claimedBy[0].basename}」使用`)
+      return
+    }
+  }
+
+  // 移动后所在的同级分组：frontmatter 父节点模式下子节点都在反向链接分组
+  const linkType = settings.treeSource === 'frontmatter' ? 'backlink' : parsed.linkType
+  const { prefix, useDigits } = getChildIdPrefix(newParent.id, linkType, newParent.level === 0, settings.idFormat)
+  const position = parseSuffix(parsed.suffix, useDigits, settings.idFormat)
+  if (position < 0) {
+    new Notice(`无效的编号: ${newId}`)
+    return
+  }
+  const siblings = (linkType === 'mutual' ? newParent.mutuals : newParent.backlinks)
+    .map((n) => n.file)
+    .filter((f): f is TFile => f !== null && f !== node.file)
+
+  if (!settings.freezeIds && !settings.manualOrder) {
+    // 同级位置由排序决定，不能指定
+    const sorted = sortFiles(app, [...siblings, node.file], settings, newParent.file)
+    const sortedId = `${prefix}${formatSuffix(sorted.indexOf(node.file), useDigits, settings.idFormat)}`
+    if (sortedId !== newId) {
+      new Notice(`只能修改父节点，同级位置由排序决定（移动后的编号为 ${sortedId}）；开启手动排序或冻结编号后可以指定位置`)
+      return
+    }
+  }
+
+  const oldParent = findParentZettelNode(nodes, node)
+  const { leftoverFiles } = await reparentInTree(
+    app,
+    settings,
+    node.file,
+    oldParent ? oldParent.file : null,
+    newParent.file,
+    parsed.linkType === 'mutual',
+  )
+  if (leftoverFiles.length > 0) {
+    new Notice(`以下笔记中的链接未能自动删除，请手动修改: ${leftoverFiles.map((f) => f.basename).join(', ')}`)
+  }
+
+  if (settings.freezeIds) {
+    await app.fileManager.processFrontMatter(node.file, (frontmatter) => {
+      frontmatter[settings.frozenIdField] = newId
+    })
+    new Notice(`编号已改为 ${newId}`)
+  } else if (settings.manualOrder) {
+    const ordered = moveSibling(siblings, node.file, position)
+    await writeChildOrder(app, newParent.file, ordered, settings.manualOrderField)
+    new Notice(`已移动到 ${newParent.id || newParent.file.basename} 下的第 ${Math.min(position, siblings.length) + 1} 位`)
+  } else {
+    new Notice(`编号已改为 ${newId}`)
+  }
+}
+
+/**
+ * 文件名编号模式：编号即文件名前缀，修改编号就是重命名文件
+ * 作为文件夹名的编号段（如 `21/3d7a6` 中的 `21`）不能在这里修改
+ */
+async function renameFilenameId(app: App, node: ZettelFileNode, newId: string) {
+  const folderPart = (id: string) => id.slice(0, id.lastIndexOf('/') + 1)
+  const oldName = node.id.slice(folderPart(node.id).length)
+  const newName = newId.slice(folderPart(newId).length)
+
+  if (!newName || folderPart(newId) !== folderPart(node.id)) {
+    new Notice('只能修改文件名中的编号部分')
+    return
+  }
+  if (!node.file.basename.startsWith(oldName)) {
+    new Notice(`文件名「${node.file.basename}」不以编号 ${oldName} 开头`)
+    return
+  }
+
+  const basename = newName + node.file.basename.slice(oldName.length)
+  const newPath = normalizePath(`${node.file.parent?.path ?? ''}/${basename}.${node.file.extension}`)
+  if (app.vault.getAbstractFileByPath(newPath)) {
+    new Notice(`文件已存在: ${newPath}`)
+    return
+  }
+
+  await app.fileManager.renameFile(node.file, newPath)
+  new Notice(`编号已改为 ${newId}`)
+}
@@ -0,0 +1,74 @@
+import { App, getLinkpath, TFile } from 'obsidian'
+import { FileSnapshot, formatWikiLink } from './link-editor'
+
+/**
+ * 读取 frontmatter 父节点字段的原始值，支持单个值或列表
+ * 值可以是 `[[1a 笔记]]`、`[[1a 笔记|别名]]` 或不带括号的文件名
+ */
+function readParentValues(app: App, file: TFile, field: string): string[] {
+    const value = app.metadataCache.getFileCache(file)?.frontmatter?.[field]
+    const values = Array.isArray(value) ? value : [value]
+    return values.filter((v): v is string => typeof v === 'string' && v.trim() !== '')
+}
+
+function resolveParentValue(app: App, file: TFile, value: string): TFile | null {
+    const linktext = value.trim().replace(/^\[\[|\]\]$/g, '').split('|')[0]
+    const dest = app.metadataCache.getFirstLinkpathDest(getLinkpath(linktext), file.path)
+    return dest && dest.extension === 'md' && dest !== file ? dest : null
+}
+
+/**
+ * 获取笔记在 frontmatter 中声明的父笔记（无法解析的值被忽略）
+ */
+export function getParentFiles(app: App, file: TFile, field: string): TFile[] {
+    const result: TFile[] = []
+    for (const value of readParentValues(app, file, field)) {
+        const parent = resolveParentValue(app, file, value)
+        if (parent && !result.includes(parent)) result.push(parent)
+    }
+    return result
+}
+
+/**
+ * 修改笔记的父节点字段：把指向旧父节点的值替换为新父节点的链接，
+ * 没有旧父节点（或未找到）时追加；字段原本是单个值且需要追加时改为列表
+ * 返回被修改文件的快照，用于撤销
+ */
+export async function reparentByParentField(
+    app: App,
+    child: TFile,
+    oldParent: TFile | null,
+    newParent: TFile,
+    field: string,
+): Promise<FileSnapshot[]> {
+    const before = await app.vault.read(child)
+    const newLink = formatWikiLink(newParent)
+
+    await app.fileManager.processFrontMatter(child, (frontmatter) => {
+        const current = frontmatter[field]
+        const values: unknown[] = current === undefined || current === null || current === ''
+            ? []
+            : Array.isArray(current) ? current : [current]
+
+        const isParent = (value: unknown, parent: TFile) =>
+            typeof value === 'string' && resolveParentValue(app, child, value) === parent
+
+        if (values.some((v) => isParent(v, newParent))) {
+            // 已经声明了新父节点，只移除旧父节点
+            const rest = values.filter((v) => !oldParent || !isParent(v, oldParent))
+            frontmatter[field] = rest.length === 1 ? rest[0] : rest
+            return
+        }
+
+        const index = oldParent ? values.findIndex((v) => isParent(v, oldParent)) : -1
+        if (index >= 0) {
+            values[index] = newLink
+        } else {
+            values.push(newLink)
+        }
+        frontmatter[field] = values.length === 1 ? values[0] : values
+    })
+
+    const after = await app.vault.read(child)
+    return after === before ? [] : [{ file: child, before, after }]
+}
@@ -0,0 +1,134 @@
+import { App, TFile, getAllTags } from 'obsidian'
+import { ZettelkastenSettings, ZettelScopeRule } from './types'
+
+/**
+ * 文件是否带有指定标签（含子标签），标签可带或不带 `#`
+ */
+export function fileHasTag(app: App, file: TFile, tag: string): boolean {
+    const normalized = (tag.startsWith('#') ? tag : `#${tag}`).toLowerCase()
+    const cache = app.metadataCache.getFileCache(file)
+    const tags = cache ? getAllTags(cache) || [] : []
+
+    return tags.some((t) => {
+        const lower = t.toLowerCase()
+        return lower === normalized || lower.startsWith(`${normalized}/`)
+    })
+}
+
+/**
+ * 将文件夹 glob 转为正则
+ * `**` 匹配任意层级（`/**` 也匹配零层，`Templates/**` 包括 `Templates` 本身），
+ * `*` 匹配单层内任意字符，`?` 匹配单个字符
+ */
+function globToRegExp(glob: string): RegExp {
+    const pattern = glob.replace(/^\/+|\/+$/g, '')
+    let source = ''
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i]
+        const isWholeSegment = pattern.startsWith('**', i + 1) && (i + 3 === pattern.length || pattern[i + 3] === '/')
+        if (char === '/' && isWholeSegment) {
+            source += '(/.*)?'
+            i += 2
+        } else if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                source += '.*'
+                i++
+            } else {
+                source += '[^/]*'
+            }
+        } else if (char === '?') {
+            source += '[^/]'
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        }
+    }
+
+    return new RegExp(`^${source}$`, 'i')
+}
+
+/**
+ * 文件所在文件夹或任一上级文件夹是否匹配 glob
+ */
+function matchesFolder(file: TFile, regex: RegExp): boolean {
+    let folder = file.parent
+    while (folder && !folder.isRoot()) {
+        if (regex.test(folder.path)) return true
+        folder = folder.parent
+    }
+    return false
+}
+
+/**
+ * frontmatter 谓词：`key`（存在且非空）、`key=value`、`key!=value`
+ * 值比较不区分大小写，列表字段任一元素相等即视为相等
+ */
+function matchesFrontmatter(app: App, file: TFile, predicate: string): boolean {
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter
+    const match = predicate.match(/^([^!=]+?)\s*(!=|=)\s*(.*)$/)
+
+    if (!match) {
+        const value = frontmatter?.[predicate.trim()]
+        return value !== undefined && value !== null && value !== '' && value !== false
+    }
+
+    const [, key, operator, expected] = match
+    const raw = frontmatter?.[key.trim()]
+    const values: unknown[] = Array.isArray(raw) ? raw : [raw]
+    const target = expected.trim().replace(/^["']|["']$/g, '').toLowerCase()
+    const equals = values.some(
+        (v) => v !== undefined && v !== null && String(v).toLowerCase() === target,
+    )
+
+    return operator === '=' ? equals : !equals
+}
+
+function matchesRule(app: App, file: TFile, rule: ZettelScopeRule, folderRegex: RegExp | null): boolean {
+    switch (rule.kind) {
+        case 'folder':
+            return folderRegex !== null && matchesFolder(file, folderRegex)
+        case 'tag':
+            return fileHasTag(app, file, rule.value.trim())
+        case 'frontmatter':
+            return matchesFrontmatter(app, file, rule.value)
+        default:
+            return false
+    }
+}
+
+/**
+ * 根据设置中的包含/排除规则创建文件过滤器
+ * - 存在包含规则时，文件需至少匹配一条包含规则
+ * - 匹配任一排除规则的文件被排除
+ * 结果按文件缓存，过滤器只应在单次构建中使用
+ */
+export function createScopeFilter(app: App, settings: ZettelkastenSettings): (file: TFile) => boolean {
+    const rules = settings.scopeRules
+        .filter((rule) => rule.value.trim())
+        .map((rule) => ({
+            rule,
+            folderRegex: rule.kind === 'folder' ? globToRegExp(rule.value.trim()) : null,
+        }))
+
+    const includes = rules.filter(({ rule }) => rule.mode === 'include')
+    const excludes = rules.filter(({ rule }) => rule.mode === 'exclude')
+
+    if (includes.length === 0 && excludes.length === 0) {
+        return () => true
+    }
+
+    const cache = new Map<TFile, boolean>()
+
+    return (file: TFile) => {
+        const cached = cache.get(file)
+        if (cached !== undefined) return cached
+
+        const included = includes.length === 0
+            || includes.some(({ rule, folderRegex }) => matchesRule(app, file, rule, folderRegex))
+        const result = included
+            && !excludes.some(({ rule, folderRegex }) => matchesRule(app, file, rule, folderRegex))
+
+        cache.set(file, result)
+        return result
+    }
+}
@@ -0,0 +1,75 @@
+import { App, TFile, getAllTags, parseFrontMatterAliases } from 'obsidian'
+import { ZettelNode } from './types'
+
+/**
+ * 将搜索输入拆分为小写关键词，所有关键词都匹配才算命中
+ */
+export function parseSearchQuery(query: string): string[] {
+    return query.toLowerCase().split(/\s+/).filter((term) => term.length > 0)
+}
+
+/**
+ * 收集文件可供搜索的文本：标题、别名、标签和 frontmatter 值
+ */
+export function getSearchText(app: App, file: TFile): string {
+    const cache = app.metadataCache.getFileCache(file)
+    const parts: string[] = [file.basename]
+
+    if (cache) {
+        parts.push(...(parseFrontMatterAliases(cache.frontmatter) || []))
+        parts.push(...(getAllTags(cache) || []))
+        collectValues(cache.frontmatter, parts)
+    }
+
+    return parts.join('\n').toLowerCase()
+}
+
+function collectValues(value: unknown, parts: string[]) {
+    if (value === null || value === undefined) return
+    if (Array.isArray(value)) {
+        value.forEach((v) => collectValues(v, parts))
+    } else if (typeof value === 'object') {
+        for (const key in value as Record<string, unknown>) {
+            if (key === 'position') continue
+            collectValues((value as Record<string, unknown>)[key], parts)
+        }
+    } else {
+        parts.push(String(value))
+    }
+}
+
+/**
+ * 节点是否匹配所有关键词（ID 或文件的搜索文本）
+ */
+export function matchesSearch(node: ZettelNode, terms: string[], searchText: string): boolean {
+    const id = node.id.toLowerCase()
+    return terms.every((term) => id.includes(term) || searchText.includes(term))
+}
+
+/**
+ * 找出文本中关键词出现的区间（已合并重叠部分），用于高亮
+ */
+export function findMatchRanges(text: string, terms: string[]): [number, number][] {
+    const lower = text.toLowerCase()
+    const ranges: [number, number][] = []
+
+    for (const term of terms) {
+        let from = lower.indexOf(term)
+        while (from >= 0) {
+            ranges.push([from, from + term.length])
+            from = lower.indexOf(term, from + term.length)
+        }
+    }
+
+    ranges.sort((a, b) => a[0] - b[0])
+    const merged: [number, number][] = []
+    for (const range of ranges) {
+        const last = merged[merged.length - 1]
+        if (last && range[0] <= last[1]) {
+            last[1] = Math.max(last[1], range[1])
+        } else {
+            merged.push([range[0], range[1]])
+        }
+    }
+    return merged
+}
@@ -0,0 +1,179 @@
+import { ZettelIdFormat, ZettelLinkType, ZettelTaskStatus, ZettelTreeNode } from './types'
+import { formatRootId } from './id-format'
+import { collectPendingFiles, createLinkTreeBuilder, LinkTreeSource } from './link-tree'
+import { describeSortKeys, parseBranchSort, sortByKeys, ZettelSortFields, ZettelSortKey } from './sorter'
+import { sortByManualOrder } from './manual-order'
+import { mergeRootGroups, NODE_KEY_SEPARATOR } from './utils'
+
+// 本模块在 Web Worker 中运行，只能依赖可序列化的数据，不能在运行时引用 obsidian
+// （sorter、manual-order 中只使用不依赖 obsidian 的函数，obsidian 的类型导入在打包时被移除）
+
+/**
+ * 链接模式下构建树所需的全部数据，文件以 paths 中的下标表示
+ */
+export interface ZettelTreeSnapshot {
+    paths: string[] // 范围内的 Markdown 文件
+    outgoing: number[][] // 每个文件的正向链接
+    incoming: number[][] // 每个文件的反向链接
+    taskStatus: ZettelTaskStatus[]
+    unresolved: string[][] // 每个文件中未解析的链接文本（已排序，未开启占位节点时为空）
+    sort: ZettelSortSnapshot
+    rootGroups: number[][] // 根文件的候选（见 findRootCandidates），按全局排序排列后合并
+    hiddenRoot: boolean // 单根模式：只取第一个根文件，作为隐藏的根节点，层级为 -1
+    idFormat: ZettelIdFormat
+    outgoingDepth: number
+    expandedOutgoingKeys: string[]
+    // 懒加载：折叠的分支只记录子节点数量，与视图的 isBranchExpanded 一致
+    collapsedKeys: string[]
+    expandAll: boolean
+    activeKey: string | null
+}
+
+/**
+ * 排序用到的原始值，名次在 Worker 中按与 sortFiles 相同的规则计算
+ */
+export interface ZettelSortSnapshot {
+    keys: ZettelSortKey[] // 全局排序
+    branchSorts: (string | null)[] // 每个文件在 frontmatter 中为子节点声明的排序
+    basenames: string[]
+    created: number[]
+    modified: number[]
+    yaml: Map<string, unknown[]> // 排序用到的 frontmatter 字段 -> 每个文件的原始值
+    childOrder: number[][] | null // 开启手动排序时每个文件保存的子笔记顺序
+    locale: string
+    missing: 'first' | 'last'
+}
+
+/**
+ * 按显示顺序展平的节点，层级决定父子关系
+ */
+export interface ZettelTreeRow {
+    file: number // paths 的下标，占位节点为 -1
+    id: string
+    level: number
+    linkType?: ZettelLinkType
+    taskStatus: ZettelTaskStatus
+    outgoingHops?: number
+    pendingChildren?: number
+    unresolvedLink?: string
+}
+
+export interface ZettelSnapshotResult {
+    rows: ZettelTreeRow[]
+    pendingFiles: number[][] // 每个根节点下尚未构建的分支中的笔记（见 collectPendingFiles）
+}
+
+export interface ZettelWorkerRequest {
+    buildId: number
+    snapshot: ZettelTreeSnapshot
+}
+
+export type ZettelWorkerResponse =
+    | ({ buildId: number } & ZettelSnapshotResult)
+    | { buildId: number; error: string }
+
+/**
+ * 由快照构建树并按显示顺序展平（节点本身 -> Mutual -> Backlink -> Outgoing），
+ * 构建规则与主线程相同（见 link-tree）。同时收集尚未构建的分支中的笔记，主线程不必再遍历
+ */
+export function buildSnapshotTree(snapshot: ZettelTreeSnapshot): ZettelSnapshotResult {
+    const { sort } = snapshot
+    const collapsed = new Set(snapshot.collapsedKeys)
+    const expandedOutgoing = new Set(snapshot.expandedOutgoingKeys)
+
+    const sortFields: ZettelSortFields<number> = {
+        getPath: (file) => snapshot.paths[file],
+        getBasename: (file) => sort.basenames[file],
+        getCreated: (file) => sort.created[file],
+        getModified: (file) => sort.modified[file],
+        getYamlValue: (file, field) => sort.yaml.get(field)?.[file],
+    }
+    // 每种排序下各文件的名次，第一次用到时计算
+    const rankCache = new Map<string, number[]>()
+    const getRanks = (keys: ZettelSortKey[]): number[] => {
+        const cacheKey = describeSortKeys(keys)
+        const cached = rankCache.get(cacheKey)
+        if (cached) return cached
+
+        const files = snapshot.paths.map((_, index) => index)
+        const sorted = sortByKeys(files, keys, sortFields, sort.locale, sort.missing)
+        const ranks: number[] = []
+        sorted.forEach((file, rank) => {
+            ranks[file] = rank
+        })
+        rankCache.set(cacheKey, ranks)
+        return ranks
+    }
+    const branchKeys = sort.branchSorts.map((spec) => parseBranchSort(spec))
+
+    const source: LinkTreeSource<number> = {
+        idFormat: snapshot.idFormat,
+        outgoingDepth: snapshot.outgoingDepth,
+        isOutgoingExpanded: (key) => expandedOutgoing.has(key),
+        // 与视图的 isBranchExpanded 一致
+        isExpanded: (key) => snapshot.expandAll
+            || !collapsed.has(key)
+            || (snapshot.activeKey?.startsWith(`${key}${NODE_KEY_SEPARATOR}`) ?? false),
+        getPath: (file) => snapshot.paths[file],
+        getChildFiles: (file, exclude) => {
+            const outgoingSet = new Set(snapshot.outgoing[file])
+            const incomingSet = new Set(snapshot.incoming[file])
+            const mutualFiles: number[] = []
+            const backlinkFiles: number[] = []
+            for (const f of snapshot.incoming[file]) {
+                if (exclude.has(f)) continue
+                if (outgoingSet.has(f)) {
+                    mutualFiles.push(f)
+                } else {
+                    backlinkFiles.push(f)
+                }
+            }
+            const outgoingFiles = snapshot.outgoing[file].filter((f) => !incomingSet.has(f) && !exclude.has(f))
+            return { mutualFiles, backlinkFiles, outgoingFiles }
+        },
+        sortChildren: (parent, files) => {
+            const ranks = getRanks(branchKeys[parent] ?? sort.keys)
+            const sorted = files.sort((a, b) => ranks[a] - ranks[b])
+            // 同级笔记按父笔记保存的手动顺序排列
+            return sort.childOrder ? sortByManualOrder(sorted, sort.childOrder[parent]) : sorted
+        },
+        getTaskStatus: (file) => snapshot.taskStatus[file],
+        getUnresolvedLinks: (file) => snapshot.unresolved[file],
+    }
+    const { buildTree } = createLinkTreeBuilder(source)
+
+    // 根文件：每组候选按全局排序（不含手动排序）排列，与 findRootFiles 相同
+    const globalRanks = getRanks(sort.keys)
+    const rootFiles = mergeRootGroups(
+        snapshot.rootGroups.map((group) => group.sort((a, b) => globalRanks[a] - globalRanks[b])),
+    )
+    const roots = snapshot.hiddenRoot
+        ? rootFiles.slice(0, 1).map((root) => buildTree(root, -1, '', ''))
+        : rootFiles.map((root, index) => buildTree(root, 0, formatRootId(index, snapshot.idFormat), ''))
+
+    const rows: ZettelTreeRow[] = []
+    const pendingFiles: number[][] = []
+    const flatten = (node: ZettelTreeNode<number>, nodes: ZettelTreeNode<number>[]) => {
+        const row: ZettelTreeRow = {
+            file: node.file ?? -1,
+            id: node.id,
+            level: node.level,
+            taskStatus: node.taskStatus,
+        }
+        if (node.linkType) row.linkType = node.linkType
+        if (node.outgoingHops) row.outgoingHops = node.outgoingHops
+        if (node.pendingChildren) row.pendingChildren = node.pendingChildren
+        if (node.unresolvedLink !== undefined) row.unresolvedLink = node.unresolvedLink
+        rows.push(row)
+        nodes.push(node)
+        for (const child of [...node.mutuals, ...node.backlinks, ...node.outgoings]) {
+            flatten(child, nodes)
+        }
+    }
+    for (const root of roots) {
+        const nodes: ZettelTreeNode<number>[] = []
+        flatten(root, nodes)
+        pendingFiles.push(Array.from(collectPendingFiles(nodes, source, snapshot.expandedOutgoingKeys)))
+    }
+    return { rows, pendingFiles }
+}
@@ -1,54 +1,297 @@
 import { App, TFile } from 'obsidian'
 import { ZettelkastenSettings } from './types'
+import { applyManualOrder } from './manual-order'
 
-export function sortFiles(app: App, files: TFile[], settings: ZettelkastenSettings): TFile[] {
-    const { sortBy, sortField, sortOrder } = settings
+export type ZettelSortField = 'filename' | 'created' | 'modified' | 'yaml'
 
-    return files.sort((a, b) => {
-        let valueA: any
-        let valueB: any
+export interface ZettelSortKey {
+    field: ZettelSortField
+    yamlField: string // field 为 yaml 时的字段名
+    order: 'asc' | 'desc'
+    natural: boolean // 字符串中的数字按数值比较（`2 笔记` < `10 笔记`）
+    missing: 'first' | 'last' | null // 缺失值的位置，null 表示使用全局设置
+}
 
-        switch (sortBy) {
-            case 'filename':
-                valueA = a.basename.toLowerCase()
-                valueB = b.basename.toLowerCase()
-                break
+/**
+ * 读取排序值的方式：主线程从 TFile 和元数据缓存读取，后台构建时 Worker 从快照读取
+ */
+export interface ZettelSortFields<T> {
+    getPath: (item: T) => string
+    getBasename: (item: T) => string
+    getCreated: (item: T) => number
+    getModified: (item: T) => number
+    getYamlValue: (item: T, field: string) => unknown
+}
 
-            case 'created':
-                valueA = a.stat.ctime
-                valueB = b.stat.ctime
-                break
+export interface ParsedSortSpec {
+    keys: ZettelSortKey[]
+    invalid: string[] // 无法解析的条目
+}
 
-            case 'modified':
-                valueA = a.stat.mtime
-                valueB = b.stat.mtime
-                break
+// 类型化的排序值：不同类型之间按 rank 排序（布尔 < 数字 < 日期 < 字符串）
+interface SortValue {
+    rank: number
+    value: number | string
+}
 
-            case 'yaml':
-                const frontmatterA =
-                    app.metadataCache.getFileCache(a)?.frontmatter
-                const frontmatterB =
-                    app.metadataCache.getFileCache(b)?.frontmatter
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+const NUMBER = /^[+-]?\d+(?:\.\d+)?$/
 
-                valueA = frontmatterA?.[sortField] || ''
-                valueB = frontmatterB?.[sortField] || ''
+const specCache = new Map<string, ParsedSortSpec>()
+const collatorCache = new Map<string, Intl.Collator>()
 
-                // 如果是字符串，转为小写进行比较
-                if (typeof valueA === 'string') valueA = valueA.toLowerCase()
-                if (typeof valueB === 'string') valueB = valueB.toLowerCase()
-                break
+/**
+ * 解析排序规则：多个键用逗号分隔，前面的键优先，每个键为字段加可选的修饰词
+ * - 字段：`filename`、`created`、`modified`、`yaml:字段名`
+ * - 修饰词：`asc` / `desc`、`natural`、`missing-first` / `missing-last`
+ * 例如 `yaml:order asc, filename natural`
+ */
+export function parseSortSpec(spec: string): ParsedSortSpec {
+    const cached = specCache.get(spec)
+    if (cached) return cached
+
+    const result: ParsedSortSpec = { keys: [], invalid: [] }
+    for (const term of spec.split(',').map((t) => t.trim()).filter((t) => t !== '')) {
+        const key = parseSortKey(term)
+        if (key) {
+            result.keys.push(key)
+        } else {
+            result.invalid.push(term)
+        }
+    }
+
+    specCache.set(spec, result)
+    return result
+}
+
+function parseSortKey(term: string): ZettelSortKey | null {
+    const [fieldToken, ...modifiers] = term.split(/\s+/)
+    const key: ZettelSortKey = { field: 'filename', yamlField: '', order: 'asc', natural: false, missing: null }
 
+    const lower = fieldToken.toLowerCase()
+    if (lower.startsWith('yaml:')) {
+        key.field = 'yaml'
+        key.yamlField = fieldToken.slice('yaml:'.length)
+        if (!key.yamlField) return null
+    } else if (lower === 'filename' || lower === 'created' || lower === 'modified') {
+        key.field = lower
+    } else {
+        return null
+    }
+
+    for (const modifier of modifiers.map((m) => m.toLowerCase())) {
+        switch (modifier) {
+            case 'asc':
+            case 'desc':
+                key.order = modifier
+                break
+            case 'natural':
+                key.natural = true
+                break
+            case 'missing-first':
+                key.missing = 'first'
+                break
+            case 'missing-last':
+                key.missing = 'last'
+                break
             default:
-                valueA = a.basename.toLowerCase()
-                valueB = b.basename.toLowerCase()
+                return null
         }
+    }
+    return key
+}
 
-        // 比较值
-        let result = 0
-        if (valueA < valueB) result = -1
-        else if (valueA > valueB) result = 1
+/**
+ * 全局排序键：配置了排序规则时使用规则，否则由「排序方式」和「排序顺序」生成单个键
+ */
+export function getSortKeys(settings: ZettelkastenSettings): ZettelSortKey[] {
+    const keys = settings.sortSpec.trim() ? parseSortSpec(settings.sortSpec).keys : []
+    if (keys.length > 0) return keys
+
+    const field: ZettelSortField = ['filename', 'created', 'modified', 'yaml'].includes(settings.sortBy)
+        ? settings.sortBy as ZettelSortField
+        : 'filename'
+    return [{ field, yamlField: settings.sortField, order: settings.sortOrder, natural: false, missing: null }]
+}
+
+export interface ResolvedSortKeys {
+    keys: ZettelSortKey[]
+    fromBranch: boolean // 是否来自父笔记 frontmatter 中的排序声明
+}
+
+/**
+ * 子笔记的有效排序：父笔记在 frontmatter 中声明了排序（如 `zk-sort: created desc`）时使用声明，
+ * 没有声明或无法解析时使用全局排序
+ */
+export function resolveSortKeys(
+    app: App,
+    settings: ZettelkastenSettings,
+    parent: TFile | null,
+): ResolvedSortKeys {
+    const value = parent && settings.branchSortField
+        ? app.metadataCache.getFileCache(parent)?.frontmatter?.[settings.branchSortField]
+        : undefined
+    const keys = parseBranchSort(value)
+    return keys ? { keys, fromBranch: true } : { keys: getSortKeys(settings), fromBranch: false }
+}
 
-        // 根据排序顺序调整
-        return sortOrder === 'desc' ? -result : result
+/**
+ * 解析父笔记 frontmatter 中声明的排序，没有声明或无法解析时返回 null
+ */
+export function parseBranchSort(value: unknown): ZettelSortKey[] | null {
+    if (typeof value !== 'string' || !value.trim()) return null
+    const keys = parseSortSpec(value).keys
+    return keys.length > 0 ? keys : null
+}
+
+/**
+ * 把排序键还原为排序规则文本，用于提示
+ */
+export function describeSortKeys(keys: ZettelSortKey[]): string {
+    return keys
+        .map((key) => {
+            const parts = [key.field === 'yaml' ? `yaml:${key.yamlField}` : key.field, key.order]
+            if (key.natural) parts.push('natural')
+            if (key.missing) parts.push(`missing-${key.missing}`)
+            return parts.join(' ')
+        })
+        .join(', ')
+}
+
+/**
+ * 排序文件；传入父笔记时按父笔记声明的排序（见 resolveSortKeys）
+ * 手动排序只用于同级笔记：传入父笔记时默认应用，全局列表（如选择根文件）不受影响
+ */
+export function sortFiles(
+    app: App,
+    files: TFile[],
+    settings: ZettelkastenSettings,
+    parent: TFile | null = null,
+    siblings: boolean = parent !== null,
+): TFile[] {
+    const { keys } = resolveSortKeys(app, settings, parent)
+    const sorted = sortByKeys(files, keys, getFileSortFields(app), settings.sortLocale, settings.sortMissing)
+
+    // 手动排序：父笔记保存的顺序中的笔记排在前面，其余按上面的排序
+    return settings.manualOrder && siblings ? applyManualOrder(app, sorted, parent, settings) : sorted
+}
+
+function getFileSortFields(app: App): ZettelSortFields<TFile> {
+    return {
+        getPath: (file) => file.path,
+        getBasename: (file) => file.basename,
+        getCreated: (file) => file.stat.ctime,
+        getModified: (file) => file.stat.mtime,
+        getYamlValue: (file, field) => app.metadataCache.getFileCache(file)?.frontmatter?.[field],
+    }
+}
+
+/**
+ * 按排序键排列（原地排序），不依赖 obsidian，主线程和后台构建共用
+ * missing 为排序键未指定缺失值位置时的默认值
+ */
+export function sortByKeys<T>(
+    items: T[],
+    keys: ZettelSortKey[],
+    fields: ZettelSortFields<T>,
+    locale: string,
+    missing: 'first' | 'last',
+): T[] {
+    const collators = keys.map((key) => getCollator(locale, key.natural))
+
+    // 每个条目的排序值只读取一次
+    const values = new Map<T, (SortValue | null)[]>()
+    for (const item of items) {
+        values.set(item, keys.map((key) => readSortValue(fields, item, key)))
+    }
+
+    return items.sort((a, b) => {
+        const valuesA = values.get(a)!
+        const valuesB = values.get(b)!
+        for (let i = 0; i < keys.length; i++) {
+            const keyMissing = keys[i].missing ?? missing
+            const result = compareSortValues(valuesA[i], valuesB[i], keys[i].order, keyMissing, collators[i])
+            if (result !== 0) return result
+        }
+        // 所有键都相同时按路径排序，保证结果稳定
+        return fields.getPath(a).localeCompare(fields.getPath(b))
     })
 }
+
+/**
+ * 缺失值（未设置、空字符串或空列表）按 missing 放在最前或最后，不受升降序影响
+ */
+function compareSortValues(
+    a: SortValue | null,
+    b: SortValue | null,
+    order: 'asc' | 'desc',
+    missing: 'first' | 'last',
+    collator: Intl.Collator,
+): number {
+    if (a === null || b === null) {
+        if (a === b) return 0
+        return (a === null) === (missing === 'first') ? -1 : 1
+    }
+
+    let result = a.rank - b.rank
+    if (result === 0) {
+        result = typeof a.value === 'string' && typeof b.value === 'string'
+            ? collator.compare(a.value, b.value)
+            : (a.value as number) - (b.value as number)
+    }
+    return order === 'desc' ? -result : result
+}
+
+function readSortValue<T>(fields: ZettelSortFields<T>, item: T, key: ZettelSortKey): SortValue | null {
+    switch (key.field) {
+        case 'filename':
+            return { rank: 3, value: fields.getBasename(item) }
+        case 'created':
+            return { rank: 1, value: fields.getCreated(item) }
+        case 'modified':
+            return { rank: 1, value: fields.getModified(item) }
+        case 'yaml':
+            return toSortValue(fields.getYamlValue(item, key.yamlField))
+    }
+}
+
+/**
+ * 按 YAML 值的类型转换：数字和数字字符串按数值，ISO 日期按时间，布尔值 false < true，
+ * 列表取第一个元素，其余按字符串
+ */
+function toSortValue(raw: unknown): SortValue | null {
+    const value = Array.isArray(raw) ? raw[0] : raw
+    if (value === undefined || value === null) return null
+
+    if (typeof value === 'boolean') return { rank: 0, value: value ? 1 : 0 }
+    if (typeof value === 'number') return Number.isFinite(value) ? { rank: 1, value } : null
+
+    const text = String(value).trim()
+    if (text === '') return null
+    if (NUMBER.test(text)) return { rank: 1, value: parseFloat(text) }
+    if (ISO_DATE.test(text)) {
+        const time = Date.parse(text)
+        if (!Number.isNaN(time)) return { rank: 2, value: time }
+    }
+    if (text === 'true' || text === 'false') return { rank: 0, value: text === 'true' ? 1 : 0 }
+    return { rank: 3, value: text }
+}
+
+/**
+ * 按语言区域比较字符串（如 `zh-CN` 按拼音排列中文标题），忽略大小写；无效的区域退回系统默认
+ */
+function getCollator(locale: string, natural: boolean): Intl.Collator {
+    const cacheKey = `${locale}|${natural}`
+    let collator = collatorCache.get(cacheKey)
+    if (!collator) {
+        const options: Intl.CollatorOptions = { numeric: natural, sensitivity: 'base' }
+        try {
+            collator = new Intl.Collator(locale || undefined, options)
+        } catch (error) {
+            console.error('排序语言无效，使用默认语言:', error)
+            collator = new Intl.Collator(undefined, options)
+        }
+        collatorCache.set(cacheKey, collator)
+    }
+    return collator
+}
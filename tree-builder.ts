@@ -1,84 +1,262 @@
 import { App, TFile, CachedMetadata } from 'obsidian'
-import { ZettelkastenSettings, ZettelNode } from './types'
+import {
+    ZettelkastenSettings,
+    ZettelLinkSummary,
+    ZettelNode,
+    ZettelRootSpec,
+    ZettelTaskStatus,
+    ZettelTreeNode,
+} from './types'
 import { sortFiles } from './sorter'
-import { getLetterSequenceFromIndex } from './utils'
+import { assignFrozenChildIds, ChildIdAssignment, collectFrozenIds } from './frozen-ids'
+import { createScopeFilter, fileHasTag } from './scope'
+import { ZettelGraphIndex } from './graph-index'
+import {
+    compareFilenameIds,
+    compileFilenameIdPattern,
+    getFilenameParentId,
+    parseFilenameId,
+} from './filename-ids'
+import { getParentFiles } from './parent-field'
+import { getLinkTargets } from './link-context'
+import { formatRepeatId, formatRootId, formatSuffix, getChildIdPrefix } from './id-format'
+import { collectPendingFiles, createLinkTreeBuilder, LinkTreeChildFiles } from './link-tree'
+import { joinNodeKey, mergeRootGroups, NODE_KEY_SEPARATOR } from './utils'
+
+export interface ZettelBuildOptions {
+    // 返回 false 的节点不构建子树，只记录直接子节点数量（pendingChildren），展开时再构建
+    isExpanded?: (key: string) => boolean
+}
+
+/**
+ * 构建笔记树，返回所有根节点
+ * - 未配置根列表时：只有一个根节点，ID 为空，不作为条目显示（旧版单根模式）
+ * - 配置了根列表时（森林模式）：每个根节点依次编号为 `1`, `2`, …，作为顶层分支显示
+ * - frontmatter 父节点模式未指定根时：没有父节点但有子节点的笔记各自作为顶层分支
+ * - 文件名编号模式：见 buildFilenameTree
+ */
+export function buildZettelkastenTree(
+    app: App,
+    settings: ZettelkastenSettings,
+    graphIndex: ZettelGraphIndex = new ZettelGraphIndex(app, settings),
+    options: ZettelBuildOptions = {},
+): ZettelNode[] {
+    if (settings.treeSource === 'filename') {
+        return buildFilenameTree(app, settings, graphIndex, options)
+    }
 
-export function buildZettelkastenTree(app: App, settings: ZettelkastenSettings): ZettelNode | null {
-    let zettelFiles = app.vault.getMarkdownFiles()
+    const { inScope, buildTree, parentFieldRoots } = createTreeBuilder(app, settings, graphIndex, options)
+    let zettelFiles = app.vault.getMarkdownFiles().filter(inScope)
 
     // 根据设置进行排序
     zettelFiles = sortFiles(app, zettelFiles, settings)
 
-    // 找到根文件
-    let rootFile: TFile | null = null
-    if (settings.rootFile) {
-        rootFile =
-            zettelFiles.find(
-                (f) => f.basename === settings.rootFile,
-            ) || null
+    if (settings.treeSource === 'frontmatter' && !settings.rootFile && settings.roots.length === 0) {
+        // 顶层节点是同级笔记，按手动排序
+        return sortFiles(app, zettelFiles.filter((f) => parentFieldRoots.has(f)), settings, null, true)
+            .map((rootFile, index) => buildTree(rootFile, 0, formatRootId(index, settings.idFormat), '', new Set()))
     }
-    if (!rootFile && zettelFiles.length > 0) {
-        rootFile = zettelFiles[0]
+
+    const forestMode = settings.roots.length > 0
+    const rootFiles = findRootFiles(app, settings, zettelFiles)
+
+    if (rootFiles.length === 0) {
+        return []
     }
 
-    if (!rootFile) {
-        return null
+    if (!forestMode) {
+        // 隐藏的根节点层级为 -1，使其子节点从第 0 层开始显示
+        return [buildTree(rootFiles[0], -1, '', '', new Set())]
     }
 
-    // Pre-calculate inverse resolved links for all files
-    // Map: TargetPath -> SourcePaths[]
-    const inverseResolvedLinks: Record<string, string[]> = {}
-    const resolvedLinks = app.metadataCache.resolvedLinks
+    return rootFiles.map((rootFile, index) =>
+        buildTree(rootFile, 0, formatRootId(index, settings.idFormat), '', new Set()),
+    )
+}
 
-    for (const sourcePath in resolvedLinks) {
-        const links = resolvedLinks[sourcePath]
-        for (const targetPath in links) {
-            if (!inverseResolvedLinks[targetPath]) {
-                inverseResolvedLinks[targetPath] = []
+/**
+ * 找到根文件：森林模式按根列表解析，否则为「根文件」设置对应的笔记（未设置时取排序后的第一篇）
+ * 单根模式下返回的唯一根文件作为隐藏的根节点
+ */
+export function findRootFiles(app: App, settings: ZettelkastenSettings, sortedFiles: TFile[]): TFile[] {
+    const rootFiles = mergeRootGroups(findRootCandidates(app, settings, sortedFiles))
+    return settings.roots.length > 0 ? rootFiles : rootFiles.slice(0, 1)
+}
+
+/**
+ * 根文件的候选，每组保持 files 中的顺序：森林模式下根列表的每一项为一组；
+ * 单根模式下为「根文件」设置对应的笔记，未设置或找不到时为所有笔记
+ */
+export function findRootCandidates(app: App, settings: ZettelkastenSettings, files: TFile[]): TFile[][] {
+    if (settings.roots.length > 0) {
+        return matchRootSpecs(app, files, settings.roots)
+    }
+    const matched = settings.rootFile ? files.filter((f) => f.basename === settings.rootFile) : []
+    return [matched.length > 0 ? matched : files]
+}
+
+/**
+ * 将子树展平为显示顺序：节点本身 -> Mutual -> Backlink -> Outgoing
+ */
+export function flattenZettelTree(node: ZettelNode): ZettelNode[] {
+    const result = [node]
+    for (const child of node.mutuals) {
+        result.push(...flattenZettelTree(child))
+    }
+    for (const child of node.backlinks) {
+        result.push(...flattenZettelTree(child))
+    }
+    for (const child of node.outgoings) {
+        result.push(...flattenZettelTree(child))
+    }
+    return result
+}
+
+/**
+ * 展平根节点的显示条目：ID 为空的隐藏根节点只展平其子节点
+ */
+export function flattenZettelRoot(root: ZettelNode): ZettelNode[] {
+    return root.id === '' ? flattenZettelTree(root).slice(1) : flattenZettelTree(root)
+}
+
+/**
+ * 收集所有节点（包括隐藏的根节点），按显示顺序
+ */
+export function collectZettelNodes(roots: ZettelNode[]): ZettelNode[] {
+    const result: ZettelNode[] = []
+    for (const root of roots) {
+        result.push(...flattenZettelTree(root))
+    }
+    return result
+}
+
+/**
+ * 根据路径链查找父节点，根节点返回 null
+ */
+export function findParentZettelNode(nodes: ZettelNode[], node: ZettelNode): ZettelNode | null {
+    const chain = node.key.split(NODE_KEY_SEPARATOR)
+    if (chain.length < 2) return null
+    chain.pop()
+    const parentKey = chain.join(NODE_KEY_SEPARATOR)
+    return nodes.find((n) => n.key === parentKey) || null
+}
+
+/**
+ * 重新构建单个节点的子树（用于增量刷新）
+ * 节点的编号、层级、连接类型保持不变，祖先由路径链还原
+ */
+export function rebuildZettelSubtree(
+    app: App,
+    settings: ZettelkastenSettings,
+    graphIndex: ZettelGraphIndex,
+    node: ZettelNode,
+    options: ZettelBuildOptions = {},
+): ZettelNode {
+    // 占位节点没有子树，随父节点一起重建
+    const file = node.file
+    if (!file) return node
+
+    if (settings.treeSource === 'filename') {
+        const { buildTree } = createFilenameTreeBuilder(app, settings, graphIndex, options)
+        const parentKey = node.key.split(NODE_KEY_SEPARATOR).slice(0, -1).join(NODE_KEY_SEPARATOR)
+        return buildTree(file, node.level, node.id, parentKey)
+    }
+
+    const { buildTree, buildOutgoingNode } = createTreeBuilder(app, settings, graphIndex, options)
+
+    const chain = node.key.split(NODE_KEY_SEPARATOR)
+    chain.pop()
+    const ancestors = new Set<TFile>()
+    for (const path of chain) {
+        const f = app.vault.getAbstractFileByPath(path)
+        if (f instanceof TFile) ancestors.add(f)
+    }
+
+    const parentKey = chain.join(NODE_KEY_SEPARATOR)
+    const rebuilt = node.linkType === 'outgoing'
+        ? buildOutgoingNode(file, node.level, node.id, parentKey, ancestors, node.outgoingHops ?? 1)
+        : buildTree(file, node.level, node.id, parentKey, ancestors, node.outgoingHops ?? 0)
+    rebuilt.linkType = node.linkType
+    rebuilt.frozen = node.frozen
+    rebuilt.idConflict = node.idConflict
+    return rebuilt
+}
+
+/**
+ * 创建一次构建使用的上下文：范围过滤、冻结编号和递归构建函数
+ */
+function createTreeBuilder(
+    app: App,
+    settings: ZettelkastenSettings,
+    graphIndex: ZettelGraphIndex,
+    options: ZettelBuildOptions = {},
+) {
+    const inScope = createScopeFilter(app, settings)
+
+    // 冻结编号模式：第一次分配编号时收集库中已保存的编号
+    let storedIds: Map<string, TFile[]> | null = null
+    const getStoredIds = () => {
+        if (!storedIds) storedIds = collectFrozenIds(app, settings)
+        return storedIds
+    }
+
+    // frontmatter 父节点模式：预先收集父子关系
+    const parentsOf = new Map<TFile, TFile[]>()
+    const childrenOf = new Map<TFile, TFile[]>()
+    const parentFieldRoots = new Set<TFile>()
+    if (settings.treeSource === 'frontmatter') {
+        const files = app.vault.getMarkdownFiles().filter(inScope)
+        for (const file of files) {
+            const parents = getParentFiles(app, file, settings.parentField).filter(inScope)
+            parentsOf.set(file, parents)
+            for (const parent of parents) {
+                childrenOf.set(parent, [...(childrenOf.get(parent) || []), file])
             }
-            inverseResolvedLinks[targetPath].push(sourcePath)
+        }
+        for (const file of files) {
+            if (parentsOf.get(file)?.length === 0 && childrenOf.has(file)) parentFieldRoots.add(file)
         }
     }
 
-    // 构建树
-    const buildTree = (
-        file: TFile,
-        level: number,
-        currentId: string,
-        ancestors: Set<TFile> = new Set(),
-    ): ZettelNode => {
-        const cache = app.metadataCache.getFileCache(file)
-        const parentEndsWithDigit = /\d$/.test(currentId)
-        if (ancestors.has(file)) {
-            // Determine suffix for repeat node based on currentId tail
-            // If ends in digit -> append 'a'. If ends in letter -> append '1'
-            const endsWithDigit = /\d$/.test(currentId)
-            const suffix = endsWithDigit ? 'a' : '1'
+    const format = settings.idFormat
+
+    // 为一组已排序的子文件分配编号
+    const assignChildIds = (
+        files: TFile[],
+        prefix: string,
+        useDigits: boolean,
+    ): ChildIdAssignment[] => {
+        if (settings.freezeIds) {
+            return assignFrozenChildIds(app, files, prefix, useDigits, settings, getStoredIds())
+        }
+        return files.map((file, index) => ({
+            file,
+            id: `${prefix}${formatSuffix(index, useDigits, format)}`,
+            frozen: false,
+        }))
+    }
 
+    // 子节点候选：按连接类型分类的文件（未排序），exclude 中的文件（祖先）被跳过
+    const getChildFiles = (file: TFile, exclude: Set<TFile>): LinkTreeChildFiles<TFile> => {
+        // frontmatter 父节点模式：子节点来自声明了本笔记为父节点的笔记
+        if (settings.treeSource === 'frontmatter') {
             return {
-                file,
-                id: `${currentId}${suffix}`,
-                mutuals: [],
-                backlinks: [],
-                outgoings: [],
-                level,
-                taskStatus: 'none',
+                mutualFiles: [],
+                backlinkFiles: (childrenOf.get(file) || []).filter((f) => !exclude.has(f)),
+                outgoingFiles: [],
             }
         }
 
-        const newAncestors = new Set(ancestors)
-        newAncestors.add(file)
+        // 1. Get raw Outgoing links (Using the graph index)
+        const outgoingPaths = graphIndex.getOutgoing(file.path)
 
-        // 1. Get raw Outgoing links (Using resolvedLinks directly)
-        const outgoingPaths = Object.keys(resolvedLinks[file.path] || {})
-
-        // 2. Get raw Backlinks (Using pre-calculated inverseResolvedLinks)
-        const backlinkPaths = inverseResolvedLinks[file.path] || []
+        // 2. Get raw Backlinks (Using the index's incoming links)
+        const backlinkPaths = graphIndex.getIncoming(file.path)
 
         // 3. Classify into Mutual, Backlink, Outgoing
         const mutualFiles: TFile[] = []
-        const backlinkOnlyFiles: TFile[] = []
-        const outgoingOnlyFiles: TFile[] = []
+        const backlinkFiles: TFile[] = []
+        const outgoingFiles: TFile[] = []
 
         const outgoingSet = new Set(outgoingPaths)
         const backlinkSet = new Set(backlinkPaths)
@@ -86,11 +264,11 @@ export function buildZettelkastenTree(app: App, settings: ZettelkastenSettings):
         // Check Backlinks: If also in Outgoing -> Mutual, else -> Backlink Only
         for (const path of backlinkPaths) {
             const f = app.vault.getAbstractFileByPath(path)
-            if (f instanceof TFile && f.extension === 'md' && !newAncestors.has(f)) {
+            if (f instanceof TFile && f.extension === 'md' && inScope(f) && !exclude.has(f)) {
                 if (outgoingSet.has(path)) {
                     mutualFiles.push(f)
                 } else {
-                    backlinkOnlyFiles.push(f)
+                    backlinkFiles.push(f)
                 }
             }
         }
@@ -99,101 +277,316 @@ export function buildZettelkastenTree(app: App, settings: ZettelkastenSettings):
         for (const path of outgoingPaths) {
             if (!backlinkSet.has(path)) {
                 const f = app.vault.getAbstractFileByPath(path)
-                if (f instanceof TFile && f.extension === 'md' && !newAncestors.has(f)) {
-                    outgoingOnlyFiles.push(f)
+                if (f instanceof TFile && f.extension === 'md' && inScope(f) && !exclude.has(f)) {
+                    outgoingFiles.push(f)
                 }
             }
         }
 
-        const mutuals: ZettelNode[] = []
-        const backlinks: ZettelNode[] = []
-        const outgoings: ZettelNode[] = []
-
-        // Sort children before processing
-        const sortedMutualFiles = sortFiles(app, mutualFiles, settings)
-        const sortedBacklinkFiles = sortFiles(app, backlinkOnlyFiles, settings)
-        const sortedOutgoingFiles = sortFiles(app, outgoingOnlyFiles, settings)
-
-        // Process Mutual Files (Use '.', keep digits)
-        sortedMutualFiles.forEach((childFile, index) => {
-            // If parent ends in digit, we switch to letters. If letter, switch to digits.
-            const suffix = parentEndsWithDigit
-                ? (index + 1).toString()
-                : getLetterSequenceFromIndex(index)
-
-            const childId = `${currentId}.${suffix}`
-
-            const childNode = buildTree(
-                childFile,
-                level + 1,
-                childId,
-                newAncestors
-            )
-            childNode.linkType = 'mutual'
-            mutuals.push(childNode)
-        })
-
-        // Process Backlink Files (Alternating logic based on parent ID)
-        sortedBacklinkFiles.forEach((childFile, index) => {
-
-            // If parent ends in digit, we switch to letters. If letter, switch to digits.
-            const suffix = parentEndsWithDigit
-                ? getLetterSequenceFromIndex(index)
-                : (index + 1).toString()
-
-            const childId = `${currentId}${suffix}`
-
-            const childNode = buildTree(
-                childFile,
-                level + 1,
-                childId,
-                newAncestors
-            )
-            childNode.linkType = 'backlink'
-            backlinks.push(childNode)
-        })
-
-        // Process Outgoing Files (Use '>', keep digits)
-        // NOTE: NOT TRAVERSED (No recursion call to buildTree for children of outgoing)
-        sortedOutgoingFiles.forEach((childFile, index) => {
-            const suffix = parentEndsWithDigit
-                ? (index + 1).toString()
-                : getLetterSequenceFromIndex(index)
-            const childId = `${currentId}>${suffix}`
-
-            // Manually construct node without recursion
-            // We do NOT add ancestors because we aren't recursing.
-            const childNode: ZettelNode = {
-                file: childFile,
-                id: childId,
+        return { mutualFiles, backlinkFiles, outgoingFiles }
+    }
+
+    // 冻结编号模式下记录编号来源和冲突
+    const markFrozen = (node: ZettelTreeNode<TFile>, frozen: boolean) => {
+        if (!settings.freezeIds) return
+        node.frozen = frozen
+        node.idConflict = (getStoredIds().get(node.id)?.length ?? 0) > 1
+    }
+
+    // 链接模式：子节点为 Mutual / Backlink / Outgoing，规则见 link-tree
+    const linkTree = createLinkTreeBuilder<TFile>({
+        idFormat: format,
+        outgoingDepth: settings.outgoingDepth,
+        isOutgoingExpanded: (key) => settings.expandedOutgoingKeys.includes(key),
+        isExpanded: options.isExpanded,
+        getPath: (file) => file.path,
+        getChildFiles,
+        sortChildren: (parent, files) => sortFiles(app, files, settings, parent),
+        getTaskStatus: (file) => getTaskStatus(app.metadataCache.getFileCache(file)),
+        getUnresolvedLinks: (file) => settings.showUnresolvedLinks ? graphIndex.getUnresolved(file.path) : [],
+        assignChildIds,
+        markFrozen,
+    })
+
+    // frontmatter 父节点模式：子节点来自声明了本笔记为父节点的笔记，按反向链接的规则编号，其余链接只作为标注
+    const buildParentFieldTree = (
+        file: TFile,
+        level: number,
+        currentId: string,
+        parentKey: string,
+        ancestors: Set<TFile> = new Set(),
+    ): ZettelNode => {
+        const key = joinNodeKey(parentKey, file.path)
+        if (ancestors.has(file)) {
+            return {
+                file,
+                id: formatRepeatId(currentId, format),
+                key,
                 mutuals: [],
                 backlinks: [],
                 outgoings: [],
-                level: level + 1,
-                linkType: 'outgoing',
-                taskStatus: getTaskStatus(app.metadataCache.getFileCache(childFile))
+                level,
+                taskStatus: 'none',
             }
-            outgoings.push(childNode)
-        })
+        }
+
+        const newAncestors = new Set(ancestors)
+        newAncestors.add(file)
+        const { backlinkFiles } = getChildFiles(file, newAncestors)
 
-        return {
+        const node: ZettelNode = {
             file,
             id: currentId,
-            mutuals,
-            backlinks,
-            outgoings,
+            key,
+            mutuals: [],
+            backlinks: [],
+            outgoings: [],
             level,
-            taskStatus: getTaskStatus(cache),
+            taskStatus: getTaskStatus(app.metadataCache.getFileCache(file)),
+            links: summarizeLinks(app, settings, graphIndex, inScope, file, [
+                ...(parentsOf.get(file) || []),
+                ...(childrenOf.get(file) || []),
+            ]),
+        }
+
+        // 懒加载：未展开的节点只记录直接子节点的数量
+        if (level >= 0 && options.isExpanded && !options.isExpanded(key)) {
+            if (backlinkFiles.length > 0) {
+                node.pendingChildren = backlinkFiles.length
+            }
+            return node
+        }
+
+        const { prefix, useDigits } = getChildIdPrefix(currentId, 'backlink', level === 0, format)
+        node.backlinks = assignChildIds(sortFiles(app, backlinkFiles, settings, file), prefix, useDigits)
+            .map(({ file: childFile, id: childId, frozen }) => {
+                const childNode = buildParentFieldTree(childFile, level + 1, childId, key, newAncestors)
+                markFrozen(childNode, frozen)
+                return childNode
+            })
+        return node
+    }
+
+    const buildTree: (
+        file: TFile,
+        level: number,
+        currentId: string,
+        parentKey: string,
+        ancestors?: Set<TFile>,
+        outgoingHops?: number,
+    ) => ZettelNode = settings.treeSource === 'frontmatter' ? buildParentFieldTree : linkTree.buildTree
+    const buildOutgoingNode: (
+        file: TFile,
+        level: number,
+        id: string,
+        parentKey: string,
+        ancestors: Set<TFile>,
+        outgoingHops: number,
+    ) => ZettelNode = linkTree.buildOutgoingNode
+
+    return { inScope, buildTree, buildOutgoingNode, getChildFiles, parentFieldRoots }
+}
+
+/**
+ * 文件名编号模式：每个带编号的笔记以文件名中的编号显示
+ * - 父节点是去掉最后一段编号后对应的笔记，中间缺失的编号向上跳过
+ * - 找不到父节点的笔记作为顶层节点；配置了根列表或根文件时只显示对应的子树
+ */
+function buildFilenameTree(
+    app: App,
+    settings: ZettelkastenSettings,
+    graphIndex: ZettelGraphIndex,
+    options: ZettelBuildOptions,
+): ZettelNode[] {
+    const { buildTree, numberedFiles, topLevelFiles } = createFilenameTreeBuilder(app, settings, graphIndex, options)
+
+    let rootFiles = topLevelFiles
+    if (settings.roots.length > 0) {
+        rootFiles = mergeRootGroups(matchRootSpecs(app, numberedFiles, settings.roots))
+    } else if (settings.rootFile) {
+        rootFiles = numberedFiles.filter((f) => f.basename === settings.rootFile)
+    }
+
+    return rootFiles.map((rootFile) => buildTree(rootFile, 0, '', ''))
+}
+
+/**
+ * 创建文件名编号模式的构建上下文。层级子节点按编号排列并放在 backlinks 中，
+ * 链接关系只记录在 links 上，构建函数的签名与链接模式相同以便增量刷新复用
+ */
+function createFilenameTreeBuilder(
+    app: App,
+    settings: ZettelkastenSettings,
+    graphIndex: ZettelGraphIndex,
+    options: ZettelBuildOptions = {},
+) {
+    const inScope = createScopeFilter(app, settings)
+    const pattern = compileFilenameIdPattern(settings.filenameIdPattern)
+
+    // 1. 解析编号（同一编号对应多个文件时，子节点挂在第一个文件下）
+    const ids = new Map<TFile, string>()
+    const filesById = new Map<string, TFile[]>()
+    for (const file of app.vault.getMarkdownFiles()) {
+        if (!inScope(file)) continue
+        const id = parseFilenameId(file, pattern)
+        if (!id) continue
+        ids.set(file, id)
+        const normalized = id.toLowerCase()
+        filesById.set(normalized, [...(filesById.get(normalized) || []), file])
+    }
+
+    const numberedFiles = Array.from(ids.keys()).sort(
+        (a, b) => compareFilenameIds(ids.get(a)!, ids.get(b)!) || a.path.localeCompare(b.path),
+    )
+
+    // 2. 按编号查找父节点
+    const children = new Map<TFile, TFile[]>()
+    const topLevelFiles: TFile[] = []
+    for (const file of numberedFiles) {
+        let parent: TFile | undefined
+        let parentId = getFilenameParentId(ids.get(file)!)
+        while (parentId && !parent) {
+            parent = filesById.get(parentId.toLowerCase())?.[0]
+            parentId = getFilenameParentId(parentId)
+        }
+
+        if (parent) {
+            children.set(parent, [...(children.get(parent) || []), file])
+        } else {
+            topLevelFiles.push(file)
+        }
+    }
+
+    // 3. 构建树（编号来自文件名，currentId 和 ancestors 仅为与链接模式保持一致）
+    const buildTree = (
+        file: TFile,
+        level: number,
+        currentId: string,
+        parentKey: string,
+        ancestors: Set<TFile> = new Set(),
+    ): ZettelNode => {
+        const key = joinNodeKey(parentKey, file.path)
+        const id = ids.get(file) ?? currentId
+        const childFiles = children.get(file) || []
+
+        const node: ZettelNode = {
+            file,
+            id,
+            key,
+            mutuals: [],
+            backlinks: [],
+            outgoings: [],
+            level,
+            taskStatus: getTaskStatus(app.metadataCache.getFileCache(file)),
+            idConflict: (filesById.get(id.toLowerCase())?.length ?? 0) > 1,
+            links: summarizeLinks(app, settings, graphIndex, inScope, file),
+        }
+
+        // 懒加载：未展开的节点只记录子节点数量
+        if (options.isExpanded && !options.isExpanded(key)) {
+            if (childFiles.length > 0) {
+                node.pendingChildren = childFiles.length
+            }
+            return node
+        }
+
+        node.backlinks = childFiles.map((child) => buildTree(child, level + 1, '', key, ancestors))
+        return node
+    }
+
+    const getChildFiles = (file: TFile): LinkTreeChildFiles<TFile> => ({
+        mutualFiles: [],
+        backlinkFiles: children.get(file) || [],
+        outgoingFiles: [],
+    })
+
+    return { inScope, buildTree, getChildFiles, numberedFiles, topLevelFiles }
+}
+
+/**
+ * 创建收集懒加载节点尚未构建的子树中笔记的函数（规则见 link-tree 的 collectPendingFiles）。
+ * 范围和父子关系只在创建时准备一次，链接关系读取自 graphIndex，因此可以随索引的增量更新复用
+ */
+export function createPendingFileCollector(
+    app: App,
+    settings: ZettelkastenSettings,
+    graphIndex: ZettelGraphIndex,
+): (nodes: ZettelNode[]) => Set<TFile> {
+    const { getChildFiles } = settings.treeSource === 'filename'
+        ? createFilenameTreeBuilder(app, settings, graphIndex)
+        : createTreeBuilder(app, settings, graphIndex)
+    const source = { outgoingDepth: settings.outgoingDepth, getPath: (file: TFile) => file.path, getChildFiles }
+    return (nodes) => collectPendingFiles(nodes, source, settings.expandedOutgoingKeys)
+}
+
+/**
+ * 非链接模式下的链接标注：按 Mutual / Backlink / Outgoing 分类，
+ * 已经体现在层级中的父子笔记（structural）不重复标注
+ */
+function summarizeLinks(
+    app: App,
+    settings: ZettelkastenSettings,
+    graphIndex: ZettelGraphIndex,
+    inScope: (file: TFile) => boolean,
+    file: TFile,
+    structural: TFile[] = [],
+): ZettelLinkSummary {
+    const toFiles = (paths: string[]): TFile[] => {
+        const result: TFile[] = []
+        for (const path of paths) {
+            const f = app.vault.getAbstractFileByPath(path)
+            if (f instanceof TFile && f.extension === 'md' && inScope(f) && !structural.includes(f)) {
+                result.push(f)
+            }
+        }
+        return sortFiles(app, result, settings)
+    }
+
+    const links = graphIndex.classifyLinks(file.path)
+    return {
+        mutuals: toFiles(links.mutuals),
+        backlinks: toFiles(links.backlinks),
+        outgoings: toFiles(links.outgoings),
+    }
+}
+
+/**
+ * 按根列表配置的顺序匹配根文件，每一项对应一组（保持 files 中的顺序）
+ */
+function matchRootSpecs(app: App, files: TFile[], specs: ZettelRootSpec[]): TFile[][] {
+    const groups: TFile[][] = []
+
+    for (const spec of specs) {
+        const value = spec.value.trim()
+        if (!value) continue
+
+        switch (spec.type) {
+            case 'file':
+                groups.push(files.filter(
+                    (f) => f.basename === value || f.path === value,
+                ))
+                break
+
+            case 'tag':
+                groups.push(files.filter((f) => fileHasTag(app, f, value)))
+                break
+
+            case 'folder': {
+                const folder = value.replace(/^\/+|\/+$/g, '')
+                groups.push(files.filter((f) =>
+                    folder === ''
+                        ? f.parent?.isRoot() === true
+                        : f.parent?.path === folder,
+                ))
+                break
+            }
         }
     }
 
-    const rootNode = buildTree(rootFile, 0, '', new Set())
-    return rootNode
+    return groups
 }
 
-function getTaskStatus(
-    cache: CachedMetadata | null,
-): 'none' | 'incomplete' | 'complete' | 'mixed' {
+export function getTaskStatus(cache: CachedMetadata | null): ZettelTaskStatus {
     if (!cache?.listItems) return 'none'
 
     let hasIncomplete = false
@@ -221,14 +614,17 @@ function getTaskStatus(
  */
 export function getZettelChildren(app: App, file: TFile, settings: ZettelkastenSettings) {
     const resolvedLinks = app.metadataCache.resolvedLinks
+    const inScope = createScopeFilter(app, settings)
 
-    // 1. Get raw Outgoing links
-    const outgoingPaths = Object.keys(resolvedLinks[file.path] || {})
+    // 1. Get raw Outgoing links (filtered by the link context rules)
+    const outgoingPaths = getLinkTargets(app, file, settings.linkContext)
 
     // 2. Get raw Backlinks (Iterate all to find who links to me - safe for single file lookup)
     const backlinkPaths: string[] = []
     for (const sourcePath in resolvedLinks) {
-        if (resolvedLinks[sourcePath][file.path]) {
+        if (!resolvedLinks[sourcePath][file.path]) continue
+        const source = app.vault.getAbstractFileByPath(sourcePath)
+        if (source instanceof TFile && getLinkTargets(app, source, settings.linkContext).includes(file.path)) {
             backlinkPaths.push(sourcePath)
         }
     }
@@ -244,7 +640,7 @@ export function getZettelChildren(app: App, file: TFile, settings: ZettelkastenS
     // Check Backlinks: If also in Outgoing -> Mutual, else -> Backlink Only
     for (const path of backlinkPaths) {
         const f = app.vault.getAbstractFileByPath(path)
-        if (f instanceof TFile && f.extension === 'md') {
+        if (f instanceof TFile && f.extension === 'md' && inScope(f)) {
             if (outgoingSet.has(path)) {
                 mutualFiles.push(f)
             } else {
@@ -257,16 +653,16 @@ export function getZettelChildren(app: App, file: TFile, settings: ZettelkastenS
     for (const path of outgoingPaths) {
         if (!backlinkSet.has(path)) {
             const f = app.vault.getAbstractFileByPath(path)
-            if (f instanceof TFile && f.extension === 'md') {
+            if (f instanceof TFile && f.extension === 'md' && inScope(f)) {
                 outgoingOnlyFiles.push(f)
             }
         }
     }
 
-    // Sort
+    // Sort (honoring the parent's own sort declaration)
     return {
-        mutuals: sortFiles(app, mutualFiles, settings),
-        backlinks: sortFiles(app, backlinkOnlyFiles, settings),
-        outgoings: sortFiles(app, outgoingOnlyFiles, settings),
+        mutuals: sortFiles(app, mutualFiles, settings, file),
+        backlinks: sortFiles(app, backlinkOnlyFiles, settings, file),
+        outgoings: sortFiles(app, outgoingOnlyFiles, settings, file),
     }
 }
@@ -0,0 +1,221 @@
+import { App, TFile } from 'obsidian'
+import { ZettelkastenSettings, ZettelNode } from './types'
+import { ZettelGraphIndex } from './graph-index'
+import { createScopeFilter } from './scope'
+import { getSortKeys, parseBranchSort } from './sorter'
+import { getChildOrder } from './manual-order'
+import { findRootCandidates, getTaskStatus } from './tree-builder'
+import { ZettelSnapshotResult, ZettelTreeSnapshot, ZettelWorkerRequest, ZettelWorkerResponse } from './snapshot-builder'
+import { joinNodeKey } from './utils'
+import treeWorkerSource from 'worker:./tree-worker'
+
+export interface ZettelSnapshotOptions {
+    collapsedKeys: string[]
+    expandAll: boolean // 有搜索关键词时构建所有分支
+    activeKey: string | null
+}
+
+/**
+ * 后台构建只支持链接模式；冻结编号需要读写 frontmatter，其余模式在主线程构建
+ */
+export function canBuildFromSnapshot(settings: ZettelkastenSettings): boolean {
+    return settings.treeSource === 'links' && !settings.freezeIds
+}
+
+/**
+ * 在主线程读取构建树所需的原始数据（链接图、排序用到的值、任务状态、根文件候选），生成可发送给 Worker 的快照；
+ * 排序和选出根文件在 Worker 中进行，未解析的链接取自链接图索引。返回的 files 与快照中的下标一一对应，用于还原节点
+ */
+export function createTreeSnapshot(
+    app: App,
+    settings: ZettelkastenSettings,
+    graphIndex: ZettelGraphIndex,
+    options: ZettelSnapshotOptions,
+): { snapshot: ZettelTreeSnapshot; files: TFile[] } {
+    const inScope = createScopeFilter(app, settings)
+    const files = app.vault.getMarkdownFiles().filter(inScope)
+    const indexByPath = new Map(files.map((file, index) => [file.path, index]))
+    const toIndices = (paths: string[]) =>
+        paths.map((path) => indexByPath.get(path)).filter((index): index is number => index !== undefined)
+    const frontmatterOf = (file: TFile) => app.metadataCache.getFileCache(file)?.frontmatter
+
+    // 排序用到的 frontmatter 字段：全局排序和各笔记声明的分支排序（相同的声明只解析一次）
+    const keys = getSortKeys(settings)
+    const branchSorts = files.map((file) => {
+        const value = settings.branchSortField ? frontmatterOf(file)?.[settings.branchSortField] : undefined
+        return typeof value === 'string' ? value : null
+    })
+    const yamlFields = new Set<string>()
+    for (const key of keys) {
+        if (key.field === 'yaml') yamlFields.add(key.yamlField)
+    }
+    for (const spec of new Set(branchSorts)) {
+        for (const key of parseBranchSort(spec) || []) {
+            if (key.field === 'yaml') yamlFields.add(key.yamlField)
+        }
+    }
+    const yaml = new Map<string, unknown[]>()
+    for (const field of yamlFields) {
+        yaml.set(field, files.map((file) => frontmatterOf(file)?.[field]))
+    }
+
+    const snapshot: ZettelTreeSnapshot = {
+        paths: files.map((file) => file.path),
+        outgoing: files.map((file) => toIndices(graphIndex.getOutgoing(file.path))),
+        incoming: files.map((file) => toIndices(graphIndex.getIncoming(file.path))),
+        taskStatus: files.map((file) => getTaskStatus(app.metadataCache.getFileCache(file))),
+        unresolved: files.map((file) => settings.showUnresolvedLinks ? graphIndex.getUnresolved(file.path) : []),
+        sort: {
+            keys,
+            branchSorts,
+            basenames: files.map((file) => file.basename),
+            created: files.map((file) => file.stat.ctime),
+            modified: files.map((file) => file.stat.mtime),
+            yaml,
+            childOrder: settings.manualOrder
+                ? files.map((file) => toIndices(getChildOrder(app, file, settings.manualOrderField).map((f) => f.path)))
+                : null,
+            locale: settings.sortLocale,
+            missing: settings.sortMissing,
+        },
+        rootGroups: findRootCandidates(app, settings, files).map((group) => toIndices(group.map((file) => file.path))),
+        hiddenRoot: settings.roots.length === 0,
+        idFormat: settings.idFormat,
+        outgoingDepth: settings.outgoingDepth,
+        expandedOutgoingKeys: settings.expandedOutgoingKeys,
+        collapsedKeys: options.collapsedKeys,
+        expandAll: options.expandAll,
+        activeKey: options.activeKey,
+    }
+    return { snapshot, files }
+}
+
+/**
+ * 由 Worker 返回的展平条目还原树，返回根节点和每个根节点下尚未构建的分支中的笔记
+ */
+export function restoreSnapshotTree(
+    files: TFile[],
+    { rows, pendingFiles }: ZettelSnapshotResult,
+): { rootNodes: ZettelNode[]; pendingFiles: Set<TFile>[] } {
+    const roots: ZettelNode[] = []
+    // 当前条目的祖先链
+    const stack: ZettelNode[] = []
+
+    for (const row of rows) {
+        while (stack.length > 0 && stack[stack.length - 1].level >= row.level) {
+            stack.pop()
+        }
+        const parent = stack.length > 0 ? stack[stack.length - 1] : null
+        const file = row.file >= 0 ? files[row.file] : null
+
+        const node: ZettelNode = {
+            file,
+            id: row.id,
+            key: joinNodeKey(parent?.key ?? '', file ? file.path : row.unresolvedLink ?? ''),
+            mutuals: [],
+            backlinks: [],
+            outgoings: [],
+            level: row.level,
+            taskStatus: row.taskStatus,
+        }
+        if (row.linkType) node.linkType = row.linkType
+        if (row.outgoingHops) node.outgoingHops = row.outgoingHops
+        if (row.pendingChildren) node.pendingChildren = row.pendingChildren
+        if (row.unresolvedLink !== undefined) node.unresolvedLink = row.unresolvedLink
+
+        if (!parent) {
+            roots.push(node)
+        } else if (row.linkType === 'mutual') {
+            parent.mutuals.push(node)
+        } else if (row.linkType === 'outgoing') {
+            parent.outgoings.push(node)
+        } else {
+            parent.backlinks.push(node)
+        }
+        stack.push(node)
+    }
+
+    return {
+        rootNodes: roots,
+        pendingFiles: pendingFiles.map((indices) => new Set(indices.map((index) => files[index]))),
+    }
+}
+
+/**
+ * 在 Web Worker 中构建树。同一时间只有一次构建：新的构建或 cancel() 会终止正在进行的构建，
+ * 被取消的构建返回 null
+ */
+export class ZettelTreeWorker {
+    private worker: Worker | null = null
+    private workerUrl: string | null = null
+    private nextBuildId = 0
+    private pending: {
+        buildId: number
+        resolve: (result: ZettelSnapshotResult | null) => void
+        reject: (error: Error) => void
+    } | null = null
+
+    build(snapshot: ZettelTreeSnapshot): Promise<ZettelSnapshotResult | null> {
+        this.cancel()
+        const worker = this.getWorker()
+        const buildId = ++this.nextBuildId
+
+        return new Promise((resolve, reject) => {
+            this.pending = { buildId, resolve, reject }
+            const request: ZettelWorkerRequest = { buildId, snapshot }
+            worker.postMessage(request)
+        })
+    }
+
+    /**
+     * 取消正在进行的构建：Worker 中的递归无法中断，直接终止 Worker，下次构建时重新创建
+     * 返回是否有构建被取消
+     */
+    cancel(): boolean {
+        if (!this.pending) return false
+        this.pending.resolve(null)
+        this.pending = null
+        this.worker?.terminate()
+        this.worker = null
+        return true
+    }
+
+    destroy() {
+        this.cancel()
+        this.worker?.terminate()
+        this.worker = null
+        if (this.workerUrl) {
+            URL.revokeObjectURL(this.workerUrl)
+            this.workerUrl = null
+        }
+    }
+
+    private getWorker(): Worker {
+        if (this.worker) return this.worker
+
+        if (!this.workerUrl) {
+            this.workerUrl = URL.createObjectURL(new Blob([treeWorkerSource], { type: 'text/javascript' }))
+        }
+        const worker = new Worker(this.workerUrl)
+        worker.onmessage = (e: MessageEvent<ZettelWorkerResponse>) => {
+            const pending = this.pending
+            if (!pending || pending.buildId !== e.data.buildId) return
+            this.pending = null
+            if ('rows' in e.data) {
+                pending.resolve({ rows: e.data.rows, pendingFiles: e.data.pendingFiles })
+            } else {
+                pending.reject(new Error(e.data.error))
+            }
+        }
+        worker.onerror = (e: ErrorEvent) => {
+            e.preventDefault()
+            const pending = this.pending
+            this.pending = null
+            this.worker = null
+            worker.terminate()
+            pending?.reject(new Error(e.message))
+        }
+        this.worker = worker
+        return worker
+    }
+}
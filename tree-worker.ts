@@ -0,0 +1,13 @@
+import { buildSnapshotTree, ZettelWorkerRequest, ZettelWorkerResponse } from './snapshot-builder'
+
+// Web Worker 入口：由 esbuild 单独打包后以文本内联到 main.js（见 esbuild.config.mjs）
+self.onmessage = (e: MessageEvent<ZettelWorkerRequest>) => {
+    const { buildId, snapshot } = e.data
+    let response: ZettelWorkerResponse
+    try {
+        response = { buildId, ...buildSnapshotTree(snapshot) }
+    } catch (error) {
+        response = { buildId, error: String(error) }
+    }
+    self.postMessage(response)
+}
@@ -1,27 +1,121 @@
 import { TFile } from 'obsidian'
 
 export const VIEW_TYPE_ZETTELKASTEN = 'zettelkasten-navigator-view'
+export const VIEW_TYPE_ZETTELKASTEN_DIAGNOSTICS = 'zettelkasten-diagnostics-view'
 
 // ID format constants if needed later, or just keep them in utils/view logic
 // For now, these are the shared types.
 
 export type ZettelLinkType = 'mutual' | 'backlink' | 'outgoing'
 
-export interface ZettelNode {
-    file: TFile // 允许为 null，表示占位节点
+export interface ZettelLinkSummary {
+    mutuals: TFile[]
+    backlinks: TFile[]
+    outgoings: TFile[]
+}
+
+export type ZettelTaskStatus = 'none' | 'incomplete' | 'complete' | 'mixed'
+
+/**
+ * 树节点，F 为文件的表示方式：主线程中为 TFile，Web Worker 中为文件下标（见 link-tree.ts）
+ */
+export interface ZettelTreeNode<F> {
+    file: F | null // 为 null 时表示占位节点（未解析的链接，见 unresolvedLink）
     id: string // 自动编号ID
-    mutuals: ZettelNode[] // 双向引用
-    backlinks: ZettelNode[] // 反向引用
-    outgoings: ZettelNode[] // 正向引用 (不递归)
+    key: string // 稳定标识：从根节点起的文件路径链，不随编号变化
+    mutuals: ZettelTreeNode<F>[] // 双向引用
+    backlinks: ZettelTreeNode<F>[] // 反向引用；非链接模式下为按层级排列的子节点
+    outgoings: ZettelTreeNode<F>[] // 正向引用 (默认不递归，见 outgoingDepth)
     linkType?: ZettelLinkType
     level: number
-    taskStatus: 'none' | 'incomplete' | 'complete' | 'mixed' // 任务状态
+    taskStatus: ZettelTaskStatus // 任务状态
+    frozen?: boolean // 冻结编号模式下：编号是否读取自 frontmatter
+    idConflict?: boolean // 冻结编号被多个文件同时声明
+    outgoingHops?: number // 从根节点起路径上经过的正向引用层数
+    unresolvedLink?: string // 占位节点：父笔记中未解析链接的链接文本
+    pendingChildren?: number // 懒加载：子树尚未构建时直接子节点的数量
+}
+
+export interface ZettelNode extends ZettelTreeNode<TFile> {
+    mutuals: ZettelNode[]
+    backlinks: ZettelNode[]
+    outgoings: ZettelNode[]
+    links?: ZettelLinkSummary // 非链接模式下：与其他笔记的链接关系，仅作标注
+}
+
+/**
+ * 对应实际文件的节点（非占位节点）
+ */
+export type ZettelFileNode = ZettelNode & { file: TFile }
+
+/**
+ * 树的层级来源
+ * - links：由链接关系推导（Mutual / Backlink / Outgoing）
+ * - filename：由文件名中的 Luhmann 编号推导
+ * - frontmatter：由 frontmatter 中声明的父节点推导
+ */
+export type ZettelTreeSource = 'links' | 'filename' | 'frontmatter'
+
+export type ZettelRootType = 'file' | 'tag' | 'folder'
+
+export interface ZettelRootSpec {
+    type: ZettelRootType
+    value: string // 文件名、标签或文件夹路径
+}
+
+export type ZettelScopeRuleKind = 'folder' | 'tag' | 'frontmatter'
+
+export interface ZettelScopeRule {
+    mode: 'include' | 'exclude'
+    kind: ZettelScopeRuleKind
+    value: string // 文件夹 glob、标签，或 frontmatter 谓词 (`key`, `key=value`, `key!=value`)
+}
+
+export interface ZettelLinkContextRules {
+    includeEmbeds: boolean // 是否计入嵌入 `![[...]]`
+    includeFrontmatterLinks: boolean // 是否计入 frontmatter 中的链接
+    ignoreCallouts: boolean // 是否忽略 callout 中的链接
+    onlyHeadings: string[] // 非空时只计入这些标题（含其子标题）下的链接
+    ignoreHeadings: string[] // 忽略这些标题（含其子标题）下的链接
+}
+
+export interface ZettelIdFormat {
+    backlinkSeparator: string // 反向链接子节点与父编号之间的分隔符，默认为空（数字字母交替）
+    mutualSeparator: string // 双向引用子节点的分隔符，默认 `.`
+    outgoingSeparator: string // 正向引用子节点的分隔符，默认 `>`
+    branchSeparator: string // 顶层编号与其反向链接子节点之间的分隔符，如 Luhmann 的 `21/3`
+    rootPrefix: string // 顶层编号的前缀
+    startIndex: number // 数字段的起始序号
+    digitPadding: number // 数字段的最小位数，不足时补零
+    uppercaseLetters: boolean // 字母段使用大写
 }
 
 export interface ZettelkastenSettings {
-    collapsedIds: string[]
+    collapsedKeys: string[] // 折叠节点的路径链 (见 ZettelNode.key)
+    collapsedIds?: string[] // 旧版按ID保存的折叠状态，仅用于迁移
+    treeSource: ZettelTreeSource
+    filenameIdPattern: string // 文件名编号模式下提取编号的正则表达式
+    parentField: string // frontmatter 父节点模式下声明父节点的字段名
     rootFile: string
+    roots: ZettelRootSpec[] // 森林模式的根列表，为空时使用 rootFile
+    scopeRules: ZettelScopeRule[] // 参与构建的文件范围
+    linkContext: ZettelLinkContextRules // 哪些位置的链接参与构建
+    idFormat: ZettelIdFormat // 编号格式（文件名编号模式除外）
+    outgoingDepth: number // 正向引用节点继续递归的层数，0 表示不递归
+    expandedOutgoingKeys: string[] // 手动展开的正向引用节点的路径链
+    showUnresolvedLinks: boolean // 将未解析的链接显示为占位节点（链接模式）
+    canonicalOccurrence: boolean // 同一笔记出现在多个位置时只完整显示第一个位置，其余位置显示为引用条目
+    buildInWorker: boolean // 链接模式下在 Web Worker 中完整重建树，避免阻塞界面
     sortBy: string
     sortField: string
     sortOrder: 'asc' | 'desc'
+    sortSpec: string // 多键排序规则，如 `yaml:order asc, filename natural`；为空时使用 sortBy/sortOrder
+    sortMissing: 'first' | 'last' // 排序字段缺失的笔记排在最前或最后
+    sortLocale: string // 字符串比较使用的语言区域，为空时使用系统默认
+    branchSortField: string // 父笔记中声明子笔记排序规则的 frontmatter 字段名
+    manualOrder: boolean // 在视图中手动调整同级顺序，顺序写入父笔记的 frontmatter
+    manualOrderField: string // 父笔记中保存子笔记顺序的 frontmatter 字段名
+    manualRootOrder: string[] // 没有父笔记的顶层节点的手动顺序（文件路径）
+    freezeIds: boolean // 将编号写入 frontmatter 并在重建时复用
+    frozenIdField: string // 保存冻结编号的 frontmatter 字段名
 }
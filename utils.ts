@@ -18,3 +18,50 @@ export function getLetterSequenceFromIndex(index: number): string {
 
   return result
 }
+
+/**
+ * 节点路径链分隔符。Obsidian 文件名中不允许出现 `|`，因此不会与路径冲突
+ */
+export const NODE_KEY_SEPARATOR = '|'
+
+/**
+ * 由父节点的路径链和子文件路径生成子节点的稳定标识
+ */
+export function joinNodeKey(parentKey: string, path: string): string {
+  return parentKey ? `${parentKey}${NODE_KEY_SEPARATOR}${path}` : path
+}
+
+/**
+ * getLetterSequenceFromIndex 的逆运算
+ * a -> 0, b -> 1, ..., z -> 25, aa -> 26, ...
+ * 非小写字母序列返回 -1
+ */
+export function getIndexFromLetterSequence(sequence: string): number {
+  if (!/^[a-z]+$/.test(sequence)) {
+    return -1
+  }
+
+  let result = 0
+  for (let i = 0; i < sequence.length; i++) {
+    result = result * 26 + (sequence.charCodeAt(i) - 96)
+  }
+
+  return result - 1
+}
+
+/**
+ * 按顺序合并多组根文件，重复的只保留第一次出现
+ */
+export function mergeRootGroups<T>(groups: T[][]): T[] {
+  const result: T[] = []
+  const seen = new Set<T>()
+  for (const group of groups) {
+    for (const item of group) {
+      if (!seen.has(item)) {
+        seen.add(item)
+        result.push(item)
+      }
+    }
+  }
+  return result
+}
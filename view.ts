@@ -2,28 +2,94 @@ import {
   ItemView,
   Menu,
   Notice,
+  SearchComponent,
   TFile,
   WorkspaceLeaf,
 } from 'obsidian'
 import type ZettelkastenPlugin from './main'
-import { NoteInputModal } from './modal'
-import { VIEW_TYPE_ZETTELKASTEN, ZettelNode } from './types'
-import { buildZettelkastenTree, getZettelChildren } from './tree-builder'
+import { NoteInputModal, ZettelNodeSuggestModal } from './modal'
+import { VIEW_TYPE_ZETTELKASTEN, ZettelFileNode, ZettelLinkSummary, ZettelNode } from './types'
+import {
+  buildZettelkastenTree,
+  createPendingFileCollector,
+  flattenZettelRoot,
+  flattenZettelTree,
+  rebuildZettelSubtree,
+  ZettelBuildOptions,
+} from './tree-builder'
+import { findFrozenIdConflicts, findMovedFrozenIds, persistFrozenIds, writeFrozenId } from './frozen-ids'
+import { ZettelGraphIndex } from './graph-index'
+import { NODE_KEY_SEPARATOR } from './utils'
+import { findMatchRanges, getSearchText, matchesSearch, parseSearchQuery } from './search'
+import { FileSnapshot, restoreSnapshots } from './link-editor'
+import { createNoteFromUnresolvedLink, openCreateChildModal, reparentInTree } from './note-actions'
+import { createScopeFilter } from './scope'
+import { moveSibling, writeChildOrder } from './manual-order'
+import { describeSortKeys, resolveSortKeys } from './sorter'
+import { canBuildFromSnapshot, createTreeSnapshot, restoreSnapshotTree, ZettelTreeWorker } from './tree-snapshot'
+
+// 条目固定高度，需与 styles.css 中 .zk-item 的 height 一致
+const ROW_HEIGHT = 24
+// 视口上下额外渲染的条目数
+const OVERSCAN_ROWS = 10
+// 列表内拖动时携带的节点路径链
+const DRAG_NODE_KEY_TYPE = 'application/x-zk-node-key'
+// 写入冻结编号后等待元数据更新的最长时间（毫秒）
+const FROZEN_ID_WRITE_TIMEOUT = 2000
+
+// 放置位置：条目上方/下方作为同级，中间作为子节点
+type DropPosition = 'before' | 'after' | 'child'
 
 export class ZettelkastenView extends ItemView {
   plugin: ZettelkastenPlugin
-  collapsedIds: Set<string> // 存储折叠的条目ID
+  collapsedKeys: Set<string> // 存储折叠的条目路径链 (ZettelNode.key)
   private zettelCache: ZettelNode[] | null = null // 缓存显示条目
   private activeItemPath: string | null = null // 当前激活的条目路径
   private activeItemIndex: number | null = null // 当前激活的条目在列表中的索引
   private refreshTimeout: NodeJS.Timeout | null = null // 防抖定时器
   private isRefreshing: boolean = false // 是否正在刷新
+  private refreshQueued: boolean = false // 刷新期间又收到了刷新请求
+  private needsFullRebuild: boolean = true // 下次刷新是否需要完整重建
+  private changedPaths: Set<string> = new Set() // 待增量更新的文件路径
+  private graphIndex: ZettelGraphIndex | null = null // 链接图索引
+  private pendingCollector: ((nodes: ZettelNode[]) => Set<TFile>) | null = null // 随链接图索引创建
+  private pendingFiles: Set<TFile> = new Set() // 尚未构建的分支中的笔记
+  private rootPendingFiles: Map<ZettelNode, Set<TFile>> = new Map() // 森林模式下每个根的 pendingFiles
+  private rootNodes: ZettelNode[] = [] // 当前树的根节点
+  private hasResolved: boolean = false // 是否已收到过元数据解析完成事件
+  private listEl: HTMLElement | null = null // 列表元素
+  private visibleRows: ZettelNode[] = [] // 折叠过滤后的可见条目
+  private rowPositions: Map<ZettelNode, { posInSet: number; setSize: number }> = new Map() // 可见条目在同级中的位置
+  private renderedStart: number = 0 // 已渲染条目的范围
+  private renderedEnd: number = 0
+  private scrollFrame: number | null = null // 滚动渲染的动画帧
+  private hoverPath: string | null = null // 悬停条目的文件路径
+  private focusedKey: string | null = null // 焦点条目的路径链
+  private childHighlights: Map<string, number> = new Map() // 激活节点的子节点路径 -> 高亮颜色
+  private searchTerms: string[] = [] // 搜索关键词，为空表示不过滤
+  private searchMatches: Set<ZettelNode> = new Set() // 命中搜索的节点
+  private searchHits: ZettelNode[] = [] // 命中节点（按列表顺序），用于 Enter 跳转
+  private searchHitIndex: number = -1 // 当前跳转到的命中项
+  private searchTextCache: Map<string, string> = new Map() // 文件路径 -> 搜索文本
+  private rowIdPrefix: string = `zk-row-${Math.random().toString(36).slice(2, 8)}` // 条目元素 ID 前缀
+  private dropIndicator: HTMLElement | null = null // 当前显示放置提示的条目
+  private lastMoveSnapshots: FileSnapshot[] | null = null // 上一次拖放移动修改的文件，用于撤销
+  private lastRootOrder: string[] | null = null // 上一次调整顶层顺序之前的顺序，用于撤销
+  private orphansEl: HTMLDetailsElement | null = null // 未纳入树的笔记区域
+  private orphanFiles: TFile[] = [] // 范围内但不在树中的笔记
+  private occurrences: Map<string, ZettelNode[]> = new Map() // 文件路径 -> 该笔记在列表中的各个位置
+  private referenceRows: Map<ZettelNode, ZettelNode> = new Map() // 引用条目 -> 首次出现的位置
+  private treeWorker = new ZettelTreeWorker() // 后台构建
+  private searchCountEl: HTMLElement | null = null // 搜索命中数
+  private closed: boolean = false // 视图已关闭，不再刷新
+  // 批量写入冻结编号：写入期间暂停刷新，写入的文件元数据都更新后完整重建一次
+  private frozenIdBatch: { writing: number; written: number; awaiting: Set<string> } | null = null
 
   constructor(leaf: WorkspaceLeaf, plugin: ZettelkastenPlugin) {
     super(leaf)
     this.plugin = plugin
     // 从设置中加载折叠状态
-    this.collapsedIds = new Set(this.plugin.settings.collapsedIds || [])
+    this.collapsedKeys = new Set(this.plugin.settings.collapsedKeys || [])
   }
 
   getViewType(): string {
@@ -46,6 +112,9 @@ export class ZettelkastenView extends ItemView {
     // 添加刷新按钮和计数显示
     const headerEl = this.contentEl.createDiv({ cls: 'zk-header' })
 
+    // 搜索框
+    this.setupSearch(headerEl)
+
     // 右边控制区域
     const controlsEl = headerEl.createDiv({ cls: 'zk-controls' })
 
@@ -63,8 +132,18 @@ export class ZettelkastenView extends ItemView {
       this.toggleAllCollapse()
     }
 
+    // 冻结编号冲突提示
+    this.contentEl.createDiv({ cls: 'zk-conflicts' })
+
     // 创建笔记列表容器
     const listContainer = this.contentEl.createDiv({ cls: 'zk-list-container' })
+    this.setupList(listContainer)
+
+    // 未纳入树的笔记（默认收起，展开时才渲染列表）
+    this.orphansEl = this.contentEl.createEl('details', { cls: 'zk-orphans' })
+    this.orphansEl.createEl('summary', { cls: 'zk-orphans-summary' })
+    this.orphansEl.createDiv({ cls: 'zk-orphans-body' })
+    this.registerDomEvent(this.orphansEl, 'toggle', () => this.renderOrphanList())
 
     // 初始渲染
     await this.refresh()
@@ -103,337 +182,1630 @@ export class ZettelkastenView extends ItemView {
       }),
     )
 
-    // 监听各类元数据变化
+    // 监听单个文件的元数据变化：记录下来，等链接解析完成后增量更新
+    this.registerEvent(
+      this.app.metadataCache.on('changed', (file) => {
+        if (file.extension === 'md') {
+          this.changedPaths.add(file.path)
+          if (this.frozenIdBatch?.awaiting.delete(file.path)) this.finishFrozenIdBatch()
+        }
+      }),
+    )
     this.registerEvent(
       this.app.metadataCache.on('resolved', () => {
-        this.refresh()
+        // 首次解析完成时链接才完整，需要完整重建
+        if (!this.hasResolved) {
+          this.hasResolved = true
+          this.refresh()
+        } else if (this.changedPaths.size > 0) {
+          this.scheduleRefresh()
+        }
       }),
     )
   }
 
   async refresh() {
-    // 防抖：避免频繁刷新
+    this.needsFullRebuild = true
+    this.scheduleRefresh()
+  }
+
+  /**
+   * 防抖：避免频繁刷新
+   */
+  private scheduleRefresh() {
     if (this.refreshTimeout) {
       clearTimeout(this.refreshTimeout)
     }
 
-    // 如果正在刷新，跳过
-    if (this.isRefreshing) {
-      return
-    }
-
-    this.refreshTimeout = setTimeout(async () => {
-      await this.performRefresh()
+    this.refreshTimeout = setTimeout(() => {
+      this.refreshTimeout = null
+      this.performRefresh()
     }, 100) // 100ms 防抖
   }
 
   private async performRefresh() {
-    if (this.isRefreshing) return
+    if (this.closed) return
+    // 冻结编号写入完成后统一重建，期间的变化保留在 changedPaths 中
+    if (this.frozenIdBatch) return
+    // 正在刷新时不丢弃请求，完成后再刷新一次
+    if (this.isRefreshing) {
+      this.refreshQueued = true
+      // 后台构建使用的快照已过期，放弃本次构建，完成后重新完整重建
+      if (this.treeWorker.cancel()) this.needsFullRebuild = true
+      return
+    }
 
     this.isRefreshing = true
     const startTime = Date.now()
 
     try {
-      const listContainer = this.contentEl.querySelector('.zk-list-container')
-      if (!listContainer) return
+      if (this.needsFullRebuild || !this.graphIndex) {
+        await this.rebuildAllInBackground()
+      } else if (this.changedPaths.size > 0) {
+        this.patchChangedFiles()
+      } else {
+        return
+      }
+
+      // 性能监控
+      const endTime = Date.now()
+      const duration = endTime - startTime
+      console.log(`ZK view refresh completed in ${duration}ms`)
+
+      if (duration > 1000) {
+        console.warn(`ZK view refresh took ${duration}ms - consider optimizing`)
+      }
+    } catch (error) {
+      console.error('ZK view refresh failed:', error)
+    } finally {
+      this.isRefreshing = false
+      this.updateToggleButtonText()
+      if (this.refreshQueued) {
+        this.refreshQueued = false
+        this.scheduleRefresh()
+      }
+    }
+  }
+
+  /**
+   * 完整重建：重建链接索引和整棵树，重新渲染列表
+   */
+  private rebuildAll() {
+    this.treeWorker.cancel()
+    this.needsFullRebuild = false
+    this.changedPaths.clear()
+
+    // 1. 构建树
+    this.searchTextCache.clear()
+    const graphIndex = new ZettelGraphIndex(this.app, this.plugin.settings)
+    this.setGraphIndex(graphIndex)
+    this.applyTree(buildZettelkastenTree(this.app, this.plugin.settings, graphIndex, this.getBuildOptions()))
+  }
+
+  private canBuildInBackground(): boolean {
+    return this.plugin.settings.buildInWorker && canBuildFromSnapshot(this.plugin.settings)
+  }
+
+  /**
+   * 需要完整重建时：可以后台构建时交给下一次刷新（在 Worker 中构建），先重新渲染已构建的部分；
+   * 否则立即在主线程重建
+   */
+  private requestFullRebuild() {
+    if (!this.canBuildInBackground()) {
+      this.rebuildAll()
+      return
+    }
+    this.needsFullRebuild = true
+    this.scheduleRefresh()
+    this.renderList()
+  }
+
+  /**
+   * 完整重建的后台版本：链接模式下在主线程生成快照，由 Worker 构建树；
+   * 其他模式、关闭后台构建或 Worker 出错时退回 rebuildAll
+   */
+  private async rebuildAllInBackground() {
+    if (this.closed) return
+    if (!this.canBuildInBackground()) {
+      this.rebuildAll()
+      return
+    }
+    const settings = this.plugin.settings
+
+    this.needsFullRebuild = false
+    this.changedPaths.clear()
+
+    const graphIndex = new ZettelGraphIndex(this.app, settings)
+    const { snapshot, files } = createTreeSnapshot(this.app, settings, graphIndex, {
+      collapsedKeys: Array.from(this.collapsedKeys),
+      expandAll: this.searchTerms.length > 0,
+      activeKey: this.plugin.activeZettelKey,
+    })
+
+    let result
+    try {
+      result = await this.treeWorker.build(snapshot)
+    } catch (error) {
+      console.error('后台构建失败，改为在主线程构建:', error)
+      this.rebuildAll()
+      return
+    }
+    // 构建被取消（有新的变化、已在主线程重建或视图已关闭）
+    if (!result || this.closed) return
+
+    this.searchTextCache.clear()
+    this.setGraphIndex(graphIndex)
+    // 尚未构建的分支中的笔记已由 Worker 收集
+    const { rootNodes, pendingFiles } = restoreSnapshotTree(files, result)
+    this.applyTree(rootNodes, pendingFiles)
+  }
+
+  private setGraphIndex(graphIndex: ZettelGraphIndex) {
+    this.graphIndex = graphIndex
+    this.pendingCollector = createPendingFileCollector(this.app, this.plugin.settings, graphIndex)
+  }
+
+  /**
+   * 使用新构建的树：展平、写入冻结编号、更新计数和列表
+   * pendingFiles 为每个根节点下尚未构建的分支中的笔记，未提供时在主线程收集
+   */
+  private applyTree(rootNodes: ZettelNode[], pendingFiles?: Set<TFile>[]) {
+    this.rootNodes = rootNodes
+
+    if (this.rootNodes.length === 0) {
+      const countEl = this.contentEl.querySelector('.zk-count')
+      if (countEl) countEl.textContent = '笔记: 0'
+      this.zettelCache = []
+      this.updateOccurrences()
+      this.renderList()
+      this.updatePendingFiles()
+      this.updateOrphans()
+      return
+    }
+
+    // 2. 展平树以便渲染和缓存
+    const flatList: ZettelNode[] = []
+    for (const rootNode of this.rootNodes) {
+      flatList.push(...flattenZettelRoot(rootNode))
+    }
+
+    this.zettelCache = flatList
+
+    // 迁移旧版按ID保存的折叠状态
+    this.migrateCollapsedIds(flatList)
+
+    // 冻结编号：写入新分配的编号并提示冲突
+    this.renderConflicts()
+    this.persistNewFrozenIds(this.rootNodes)
+
+    // 更新笔记计数
+    this.updatePendingFiles(pendingFiles)
+    this.renderCount()
+    this.updateOrphans()
+    this.updateOccurrences()
+
+    // 3. 渲染
+    this.renderList()
+    this.updateHighlight()
+  }
+
+  /**
+   * 增量更新：只重建链接发生变化的文件所在的子树，并替换对应的列表条目。
+   * frontmatter/标签变化可能影响排序、范围和根列表，退回完整重建。
+   */
+  private patchChangedFiles() {
+    const graphIndex = this.graphIndex
+    if (!graphIndex || !this.zettelCache) return
+
+    const affectedPaths = new Set<string>()
+    const changedPaths = Array.from(this.changedPaths)
+    this.changedPaths.clear()
+
+    for (const path of changedPaths) {
+      const file = this.app.vault.getAbstractFileByPath(path)
+      if (!(file instanceof TFile)) continue
+
+      this.searchTextCache.delete(path)
+      const update = graphIndex.updateFile(file)
+      if (update.metadataChanged) {
+        this.requestFullRebuild()
+        return
+      }
+      update.affectedPaths.forEach((p) => affectedPaths.add(p))
+
+      // 父节点按修改时间排序时，文件在父节点中的位置会变化，需要重建父节点
+      for (const node of this.zettelCache) {
+        if (node.file?.path !== path) continue
+        const chain = node.key.split(NODE_KEY_SEPARATOR)
+        if (chain.length < 2) continue
+        const parent = this.app.vault.getAbstractFileByPath(chain[chain.length - 2])
+        const { keys } = resolveSortKeys(this.app, this.plugin.settings, parent instanceof TFile ? parent : null)
+        if (keys.some((key) => key.field === 'modified')) affectedPaths.add(chain[chain.length - 2])
+      }
+    }
+
+    // 隐藏的根节点本身受影响时，整棵树都需要重建
+    if (this.rootNodes.some((root) => root.id === '' && root.file && affectedPaths.has(root.file.path))) {
+      this.requestFullRebuild()
+      return
+    }
+
+    // 找出受影响的最上层节点，其子树中的节点随之一起重建
+    const targets: ZettelNode[] = []
+    let coveredLevel: number | null = null
+    for (const node of this.zettelCache) {
+      if (coveredLevel !== null) {
+        if (node.level > coveredLevel) continue
+        coveredLevel = null
+      }
+      if (node.file && affectedPaths.has(node.file.path)) {
+        targets.push(node)
+        coveredLevel = node.level
+      }
+    }
+
+    for (const target of targets) {
+      this.replaceSubtree(target)
+    }
+
+    this.updatePendingFiles()
+    this.renderCount()
+    this.updateOrphans()
+    this.updateOccurrences()
+    this.renderList()
+    this.updateHighlight()
+  }
+
+  /**
+   * 重建单个节点的子树，替换树、展平缓存和列表中的对应部分
+   */
+  private replaceSubtree(target: ZettelNode) {
+    if (!this.graphIndex || !this.zettelCache) return
+
+    const rebuilt = rebuildZettelSubtree(
+      this.app, this.plugin.settings, this.graphIndex, target, this.getBuildOptions(),
+    )
+
+    // 1. 替换父节点中的引用
+    const parent = this.findParentNode(target)
+    if (parent) {
+      for (const children of [parent.mutuals, parent.backlinks, parent.outgoings]) {
+        const childIndex = children.indexOf(target)
+        if (childIndex >= 0) children[childIndex] = rebuilt
+      }
+    } else {
+      const rootIndex = this.rootNodes.indexOf(target)
+      if (rootIndex >= 0) this.rootNodes[rootIndex] = rebuilt
+    }
+
+    // 2. 替换展平缓存中的子树范围（列表随后统一重新渲染）
+    const start = this.zettelCache.indexOf(target)
+    if (start < 0) return
+    let end = start + 1
+    while (end < this.zettelCache.length && this.zettelCache[end].level > target.level) {
+      end++
+    }
+    const rows = flattenZettelTree(rebuilt)
+    this.zettelCache.splice(start, end - start, ...rows)
+
+    this.persistNewFrozenIds([rebuilt])
+  }
+
+  /**
+   * 懒加载：折叠的分支只在展开、搜索或跳转到其中的位置时才构建子树
+   */
+  private getBuildOptions(): ZettelBuildOptions {
+    return { isExpanded: (key) => this.isBranchExpanded(key) }
+  }
+
+  private isBranchExpanded(key: string): boolean {
+    if (this.searchTerms.length > 0 || !this.collapsedKeys.has(key)) return true
+    // 当前笔记所在位置的祖先需要构建，才能定位到该位置
+    return this.plugin.activeZettelKey?.startsWith(`${key}${NODE_KEY_SEPARATOR}`) ?? false
+  }
+
+  private hasPendingNodes(): boolean {
+    return this.zettelCache?.some((n) => (n.pendingChildren ?? 0) > 0) ?? false
+  }
+
+  /**
+   * 构建懒加载节点的子树，并更新依赖完整列表的计数、未纳入树的笔记和多位置统计
+   */
+  private loadSubtree(zettel: ZettelNode) {
+    this.replaceSubtree(zettel)
+    this.updatePendingFiles()
+    this.renderCount()
+    this.updateOrphans()
+    this.updateOccurrences()
+  }
+
+  /**
+   * 依次构建路径链上尚未构建的祖先，使该位置出现在列表中
+   */
+  private loadPath(key: string) {
+    const chain = key.split(NODE_KEY_SEPARATOR)
+    let loaded = false
+    for (let i = 1; i < chain.length; i++) {
+      const ancestorKey = chain.slice(0, i).join(NODE_KEY_SEPARATOR)
+      const ancestor = this.zettelCache?.find((n) => n.key === ancestorKey)
+      if (ancestor?.pendingChildren) {
+        this.replaceSubtree(ancestor)
+        loaded = true
+      }
+    }
+    if (!loaded) return
+
+    this.updatePendingFiles()
+    this.renderCount()
+    this.updateOrphans()
+    this.updateOccurrences()
+    this.renderList()
+  }
+
+  private findParentNode(node: ZettelNode): ZettelNode | null {
+    const chain = node.key.split(NODE_KEY_SEPARATOR)
+    if (chain.length < 2) return null
+    chain.pop()
+    const parentKey = chain.join(NODE_KEY_SEPARATOR)
+
+    const hiddenRoot = this.rootNodes.find((root) => root.key === parentKey)
+    if (hiddenRoot) return hiddenRoot
+    return this.zettelCache?.find((n) => n.key === parentKey) || null
+  }
+
+  /**
+   * 写入新分配的冻结编号：每次写入都会触发元数据变化，
+   * 因此写入期间暂停刷新，写入的文件元数据都更新后只完整重建一次
+   */
+  private persistNewFrozenIds(nodes: ZettelNode[]) {
+    if (!this.plugin.settings.freezeIds) return
+    const batch = this.frozenIdBatch ?? { writing: 0, written: 0, awaiting: new Set<string>() }
+    this.frozenIdBatch = batch
+    batch.writing++
+
+    persistFrozenIds(this.app, nodes, this.plugin.settings, (file) => {
+      batch.written++
+      batch.awaiting.add(file.path)
+    })
+      .catch((error) => {
+        console.error('写入冻结编号失败:', error)
+      })
+      .finally(() => {
+        batch.writing--
+        this.finishFrozenIdBatch()
+        // 元数据没有如期更新时（如文件在写入后被删除）不再等待
+        window.setTimeout(() => {
+          batch.awaiting.clear()
+          this.finishFrozenIdBatch()
+        }, FROZEN_ID_WRITE_TIMEOUT)
+      })
+  }
+
+  private finishFrozenIdBatch() {
+    const batch = this.frozenIdBatch
+    if (!batch || batch.writing > 0 || batch.awaiting.size > 0) return
+
+    this.frozenIdBatch = null
+    if (batch.written > 0) {
+      this.refresh()
+    } else if (this.changedPaths.size > 0) {
+      this.scheduleRefresh()
+    }
+  }
+
+  private getListContainer(): HTMLElement | null {
+    return this.contentEl.querySelector('.zk-list-container')
+  }
+
+  /**
+   * 创建列表元素并在容器级别挂载事件（事件委托，条目本身不绑定监听器）
+   */
+  private setupList(listContainer: HTMLElement) {
+    // 列表中只有视口内的条目，层级和同级位置由 aria-level / aria-setsize / aria-posinset 给出
+    const ul = listContainer.createEl('ul', {
+      cls: 'zk-list',
+      attr: { role: 'none' },
+    })
+    this.listEl = ul
+
+    // 键盘导航：列表容器可获得焦点，焦点条目通过 aria-activedescendant 指示
+    listContainer.setAttribute('role', 'tree')
+    listContainer.setAttribute('aria-label', '卢曼笔记')
+    listContainer.setAttribute('tabindex', '0')
+    this.registerDomEvent(listContainer, 'keydown', (e) => this.handleKeydown(e))
+
+    this.registerDomEvent(listContainer, 'scroll', () => {
+      if (this.scrollFrame !== null) return
+      this.scrollFrame = requestAnimationFrame(() => {
+        this.scrollFrame = null
+        this.renderWindow()
+      })
+    })
+
+    this.registerDomEvent(ul, 'click', (e) => this.handleRowClick(e))
+
+    this.registerDomEvent(ul, 'contextmenu', (e) => {
+      const zettel = this.getRowZettel(e.target)
+      if (!zettel?.file) return
+      e.preventDefault()
+      this.showContextMenu(e, zettel.file)
+    })
+
+    // Hover Effect: Highlight all instances of the same file
+    this.registerDomEvent(ul, 'mouseover', (e) => {
+      const zettel = this.getRowZettel(e.target)
+      this.setHoverPath(zettel?.file ? zettel.file.path : null)
+    })
+    this.registerDomEvent(ul, 'mouseleave', () => {
+      this.setHoverPath(null)
+    })
+
+    // dragstart: 开始拖动时，记录被拖动的文件路径和双链格式
+    this.registerDomEvent(ul, 'dragstart', (e) => {
+      const li = this.getRowElement(e.target)
+      const zettel = this.getRowZettel(e.target)
+      if (!li || !zettel?.file || !e.dataTransfer) return
+
+      e.dataTransfer.effectAllowed = 'copyMove'
+
+      // 生成双链文本 [[文件名]] - 去掉.md扩展名
+      const fileName = zettel.file.basename.replace(/\.md$/, '')
+      const wikiLink = `[[${fileName}]]`
+
+      // 设置文本格式（拖到编辑器时使用）
+      e.dataTransfer.setData('text/plain', wikiLink)
+
+      // 设置Obsidian内部格式（拖到列表中重排序时使用）
+      e.dataTransfer.setData(
+        'application/x-obsidian-file-path',
+        zettel.file.path,
+      )
+      e.dataTransfer.setData(DRAG_NODE_KEY_TYPE, zettel.key)
+
+      li.addClass('zk-item-dragging')
+    })
+
+    this.registerDomEvent(ul, 'dragend', (e) => {
+      this.getRowElement(e.target)?.removeClass('zk-item-dragging')
+      this.clearDropIndicator()
+    })
+
+    // 拖放到其他条目上：中间作为子节点，上方/下方作为同级
+    this.registerDomEvent(ul, 'dragover', (e) => {
+      const li = this.getRowElement(e.target)
+      if (!li || !e.dataTransfer?.types.includes(DRAG_NODE_KEY_TYPE)) return
+
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+      this.showDropIndicator(li, this.getDropPosition(li, e))
+    })
+
+    this.registerDomEvent(ul, 'dragleave', (e) => {
+      if (!(e.relatedTarget instanceof Node) || !ul.contains(e.relatedTarget)) {
+        this.clearDropIndicator()
+      }
+    })
+
+    this.registerDomEvent(ul, 'drop', async (e) => {
+      const li = this.getRowElement(e.target)
+      const target = this.getRowZettel(e.target)
+      const draggedKey = e.dataTransfer?.getData(DRAG_NODE_KEY_TYPE)
+      this.clearDropIndicator()
+      if (!li || !target || !draggedKey) return
+
+      e.preventDefault()
+      const dragged = this.zettelCache?.find((n) => n.key === draggedKey)
+      if (dragged) {
+        await this.moveZettel(dragged, target, this.getDropPosition(li, e))
+      }
+    })
+  }
+
+  private getDropPosition(li: HTMLElement, e: DragEvent): DropPosition {
+    const rect = li.getBoundingClientRect()
+    const ratio = (e.clientY - rect.top) / rect.height
+    if (ratio < 0.25) return 'before'
+    if (ratio > 0.75) return 'after'
+    return 'child'
+  }
+
+  private showDropIndicator(li: HTMLElement, position: DropPosition) {
+    if (this.dropIndicator !== li) this.clearDropIndicator()
+    this.dropIndicator = li
+    li.toggleClass('zk-item-dragover', position === 'child')
+    li.toggleClass('zk-item-drop-before', position === 'before')
+    li.toggleClass('zk-item-drop-after', position === 'after')
+  }
+
+  private clearDropIndicator() {
+    this.dropIndicator?.removeClass('zk-item-dragover', 'zk-item-drop-before', 'zk-item-drop-after')
+    this.dropIndicator = null
+  }
+
+  /**
+   * 拖放移动：将 dragged 作为 target 的子节点（或 target 的同级），并改写相关链接
+   */
+  private async moveZettel(dragged: ZettelNode, target: ZettelNode, position: DropPosition) {
+    // 文件名编号模式下层级由文件名决定，改写链接不会移动笔记
+    if (this.plugin.settings.treeSource === 'filename') {
+      new Notice('文件名编号模式下请使用「修改编号」调整位置')
+      return
+    }
+
+    // 不能移动到自身或自己的子树中
+    if (target.key === dragged.key
+      || target.key.startsWith(`${dragged.key}${NODE_KEY_SEPARATOR}`)) {
+      return
+    }
+
+    // 手动排序：拖到同一组同级条目的上方/下方时只调整顺序
+    if (position !== 'child' && this.canReorder(dragged)) {
+      const siblings = this.getSiblingFiles(dragged)
+      if (target.file && siblings.includes(target.file) && target.file !== dragged.file) {
+        const rest = siblings.filter((f) => f !== dragged.file)
+        const index = rest.indexOf(target.file) + (position === 'after' ? 1 : 0)
+        await this.reorderSiblings(dragged, index)
+        return
+      }
+    }
+
+    const newParent = position === 'child' ? target : this.findParentNode(target)
+    if (!newParent) {
+      new Notice('无法放置到根节点同级')
+      return
+    }
+
+    // 占位节点不能移动，也不能作为父节点
+    const draggedFile = dragged.file
+    const parentFile = newParent.file
+    if (!draggedFile || !parentFile) return
+
+    const oldParent = this.findParentNode(dragged)
+    if (parentFile === draggedFile) return
+    if (oldParent && oldParent.file === parentFile) {
+      new Notice(`「${draggedFile.basename}」已经在「${parentFile.basename}」下`)
+      return
+    }
+
+    await this.reparentWithUndo(draggedFile, oldParent ? oldParent.file : null, parentFile)
+  }
+
+  /**
+   * 把笔记移动（或附加）到新的父笔记下，并提示可撤销
+   */
+  private async reparentWithUndo(child: TFile, oldParent: TFile | null, newParent: TFile) {
+    try {
+      const { snapshots, leftoverFiles } = await reparentInTree(this.app, this.plugin.settings, child, oldParent, newParent)
+      if (leftoverFiles.length > 0) {
+        // 残留的链接仍会把笔记留在原位置，不报告成功
+        new Notice(`以下笔记中的链接未能自动删除，请手动修改: ${leftoverFiles.map((f) => f.basename).join(', ')}`)
+      }
+      if (snapshots.length === 0) return
+
+      this.lastMoveSnapshots = snapshots
+      this.lastRootOrder = null
+      if (leftoverFiles.length > 0) {
+        this.showUndoNotice('已修改部分链接')
+      } else {
+        this.showUndoNotice(`已将「${child.basename}」移动到「${newParent.basename}」下`)
+      }
+    } catch (error) {
+      console.error('移动笔记失败:', error)
+      new Notice('移动笔记失败')
+    }
+  }
+
+  /**
+   * 提示一次可撤销的修改
+   */
+  private showUndoNotice(text: string) {
+    const message = createFragment((frag) => {
+      frag.appendText(`${text} `)
+      const undoBtn = frag.createEl('button', { text: '撤销' })
+      undoBtn.onclick = () => {
+        this.undoLastMove()
+      }
+    })
+    new Notice(message, 8000)
+  }
 
-      listContainer.empty()
+  /**
+   * 条目所在的同级分组（同一父节点下同一连接类型的子节点）。
+   * 未配置根列表时顶层节点也可以排序，配置了根列表时顶层顺序由根列表决定
+   */
+  private getSiblingFiles(zettel: ZettelNode): TFile[] {
+    const parent = this.findParentNode(zettel)
+    let group: ZettelNode[] = []
+    if (parent) {
+      group = [parent.mutuals, parent.backlinks, parent.outgoings].find((g) => g.includes(zettel)) || []
+    } else if (this.plugin.settings.roots.length === 0) {
+      group = this.rootNodes
+    }
 
-      // 1. 构建树
-      const rootNode = buildZettelkastenTree(this.app, this.plugin.settings)
+    const files: TFile[] = []
+    for (const node of group) {
+      if (node.file) files.push(node.file)
+    }
+    return files
+  }
 
-      if (!rootNode) {
-        const countEl = this.contentEl.querySelector('.zk-count')
-        if (countEl) countEl.textContent = '笔记: 0'
-        this.zettelCache = []
+  /**
+   * 是否可以手动调整条目的顺序：文件名编号模式下顺序由编号决定
+   */
+  private canReorder(zettel: ZettelNode): boolean {
+    const settings = this.plugin.settings
+    return settings.manualOrder
+      && settings.treeSource !== 'filename'
+      && zettel.file !== null
+      && this.getSiblingFiles(zettel).length > 1
+  }
+
+  /**
+   * 把条目向上（-1）或向下（1）移动一位
+   */
+  private async shiftSibling(zettel: ZettelNode, delta: -1 | 1) {
+    if (!zettel.file || !this.canReorder(zettel)) return
+    const siblings = this.getSiblingFiles(zettel)
+    const index = siblings.indexOf(zettel.file) + delta
+    if (index < 0 || index >= siblings.length) return
+    await this.reorderSiblings(zettel, index)
+  }
+
+  /**
+   * 将条目移动到同级分组中的 index 位置，并把新顺序写入父笔记的排序字段；
+   * 没有父笔记的顶层节点的顺序保存在设置中
+   */
+  private async reorderSiblings(zettel: ZettelNode, index: number) {
+    const file = zettel.file
+    if (!file) return
+
+    const siblings = this.getSiblingFiles(zettel)
+    const ordered = moveSibling(siblings, file, index)
+    if (ordered.every((f, i) => f === siblings[i])) return
+
+    const settings = this.plugin.settings
+    const parent = this.findParentNode(zettel)
+    try {
+      if (!parent?.file) {
+        this.lastRootOrder = settings.manualRootOrder
+        this.lastMoveSnapshots = null
+        settings.manualRootOrder = ordered.map((f) => f.path)
+        await this.plugin.saveSettings()
+        this.refresh()
+        this.showUndoNotice(`已调整「${file.basename}」的顺序`)
         return
       }
 
-      // 2. 展平树以便渲染和缓存
-      const flattenTree = (node: ZettelNode): ZettelNode[] => {
-        const result = [node]
-        // Flatten Order: Mutual -> Backlink -> Outgoing
-        for (const child of node.mutuals) {
-          result.push(...flattenTree(child))
+      const snapshots = await writeChildOrder(this.app, parent.file, ordered, settings.manualOrderField)
+      if (snapshots.length === 0) return
+
+      this.lastMoveSnapshots = snapshots
+      this.lastRootOrder = null
+      this.showUndoNotice(`已调整「${file.basename}」的顺序`)
+    } catch (error) {
+      console.error('调整顺序失败:', error)
+      new Notice('调整顺序失败')
+    }
+  }
+
+  /**
+   * 撤销上一次拖放移动
+   */
+  async undoLastMove() {
+    const rootOrder = this.lastRootOrder
+    if (rootOrder) {
+      this.lastRootOrder = null
+      this.plugin.settings.manualRootOrder = rootOrder
+      await this.plugin.saveSettings()
+      this.refresh()
+      new Notice('已撤销移动')
+      return
+    }
+
+    const snapshots = this.lastMoveSnapshots
+    if (!snapshots) {
+      new Notice('没有可撤销的移动')
+      return
+    }
+
+    this.lastMoveSnapshots = null
+    const skipped = await restoreSnapshots(this.app, snapshots)
+    if (skipped.length > 0) {
+      new Notice(`以下笔记在移动后被修改过，未撤销: ${skipped.map((f) => f.basename).join(', ')}`)
+    } else {
+      new Notice('已撤销移动')
+    }
+  }
+
+  private getRowElement(target: EventTarget | null): HTMLElement | null {
+    if (!(target instanceof Element)) return null
+    return target.closest('.zk-item') as HTMLElement | null
+  }
+
+  private getRowZettel(target: EventTarget | null): ZettelNode | null {
+    const li = this.getRowElement(target)
+    if (!li) return null
+    return this.visibleRows[Number(li.getAttribute('data-index'))] || null
+  }
+
+  private async handleRowClick(e: MouseEvent) {
+    const zettel = this.getRowZettel(e.target)
+    if (!zettel || !(e.target instanceof Element)) return
+
+    const zettelKey = zettel.key
+    this.focusedKey = zettelKey
+    this.getListContainer()?.focus({ preventScroll: true })
+
+    // 折叠/展开按钮
+    if (e.target.closest('.zk-collapse-icon')) {
+      e.stopPropagation()
+      this.setCollapsed(zettel, !this.collapsedKeys.has(zettelKey))
+      return
+    }
+
+    // 操作按钮
+    const actionBtn = e.target.closest('[data-action]')
+    if (actionBtn) {
+      e.stopPropagation()
+      switch (actionBtn.getAttribute('data-action')) {
+        case 'add-child':
+          await this.createChildNote(zettel)
+          break
+        case 'rename':
+          if (zettel.file) this.renameNote(zettel.file)
+          break
+        case 'toggle-outgoing':
+          await this.toggleOutgoingExpansion(zettel)
+          break
+        case 'move-up':
+          await this.shiftSibling(zettel, -1)
+          break
+        case 'move-down':
+          await this.shiftSibling(zettel, 1)
+          break
+        case 'occurrences':
+          this.showOccurrenceMenu(e, zettel)
+          break
+        case 'go-canonical': {
+          const canonical = this.referenceRows.get(zettel)
+          if (canonical) this.revealOccurrence(canonical)
+          break
+        }
+      }
+      return
+    }
+
+    // 点击打开文件
+    if (!e.target.closest('.zk-item-content')) return
+    e.preventDefault()
+
+    // 如果该条目被折叠，先展开它
+    if (this.collapsedKeys.has(zettelKey)) {
+      this.setCollapsed(zettel, false)
+      return
+    }
+
+    await this.openZettel(zettel, false)
+  }
+
+  /**
+   * 打开条目对应的文件并记录激活位置；占位节点则创建对应的笔记
+   */
+  private async openZettel(zettel: ZettelNode, newTab: boolean) {
+    if (!zettel.file) {
+      await this.createUnresolvedNote(zettel)
+      return
+    }
+
+    // 立即设置高亮
+    this.activeItemPath = zettel.file.path
+    this.activeItemIndex = this.zettelCache?.indexOf(zettel) ?? null // 记录点击的索引，用于查找子节点
+    this.plugin.activeZettelKey = zettel.key // 供跳转命令确定当前所在位置
+
+    // 更新所有高亮样式 (包括子节点高亮)
+    this.updateHighlight()
+
+    // 获取最近使用的主编辑区leaf，而不是当前侧边栏的leaf
+    const leaf = newTab
+      ? this.app.workspace.getLeaf('tab')
+      : this.app.workspace.getMostRecentLeaf()
+    if (leaf) {
+      await leaf.openFile(zettel.file)
+      // 文件打开后不需要刷新，file-open事件会自动更新高亮
+    }
+  }
+
+  /**
+   * 正向引用节点是否可以在视图中手动展开（未被递归层数设置覆盖）
+   */
+  private canToggleOutgoing(zettel: ZettelNode): boolean {
+    return zettel.linkType === 'outgoing'
+      && (zettel.outgoingHops ?? 1) > this.plugin.settings.outgoingDepth
+  }
+
+  /**
+   * 手动展开或收起单个正向引用节点，只重建该节点的子树
+   */
+  private async toggleOutgoingExpansion(zettel: ZettelNode) {
+    if (!this.canToggleOutgoing(zettel)) return
+
+    const settings = this.plugin.settings
+    const expanded = settings.expandedOutgoingKeys.includes(zettel.key)
+    settings.expandedOutgoingKeys = expanded
+      ? settings.expandedOutgoingKeys.filter((key) => key !== zettel.key)
+      : [...settings.expandedOutgoingKeys, zettel.key]
+    await this.plugin.saveSettings()
+
+    this.collapsedKeys.delete(zettel.key)
+    this.replaceSubtree(zettel)
+    this.updatePendingFiles()
+    this.renderCount()
+    this.updateOrphans()
+    this.updateOccurrences()
+    this.renderList()
+    this.updateHighlight()
+  }
+
+  private setCollapsed(zettel: ZettelNode, collapsed: boolean) {
+    if (collapsed) {
+      this.collapsedKeys.add(zettel.key)
+    } else {
+      this.collapsedKeys.delete(zettel.key)
+      if (zettel.pendingChildren) this.loadSubtree(zettel)
+    }
+    this.saveCollapsedState()
+    this.renderList()
+  }
+
+  /**
+   * 键盘操作：
+   * ↑/↓ 移动，Alt+↑/↓ 调整同级顺序（手动排序），Home/End 首尾，← 折叠或跳到父节点，→ 展开或跳到第一个子节点，
+   * Enter 打开，Ctrl/Cmd+Enter 在新标签页打开，F2 重命名，N 新建子笔记
+   */
+  private async handleKeydown(e: KeyboardEvent) {
+    if (e.target !== this.getListContainer()) return
+
+    const rows = this.visibleRows
+    if (rows.length === 0) return
+
+    let index = this.focusedKey ? rows.findIndex((n) => n.key === this.focusedKey) : -1
+    const zettel = index >= 0 ? rows[index] : null
+
+    const hasChildren = zettel !== null && !this.referenceRows.has(zettel) && (
+      zettel.mutuals.length > 0 || zettel.backlinks.length > 0 || zettel.outgoings.length > 0
+      || (zettel.pendingChildren ?? 0) > 0
+    )
+    const isExpanded = zettel !== null && hasChildren
+      && (this.searchTerms.length > 0 || !this.collapsedKeys.has(zettel.key))
+
+    switch (e.key) {
+      case 'ArrowDown':
+        if (e.altKey) {
+          if (!zettel) return
+          e.preventDefault()
+          await this.shiftSibling(zettel, 1)
+          return
         }
-        for (const child of node.backlinks) {
-          result.push(...flattenTree(child))
+        index = Math.min(rows.length - 1, index + 1)
+        break
+
+      case 'ArrowUp':
+        if (e.altKey) {
+          if (!zettel) return
+          e.preventDefault()
+          await this.shiftSibling(zettel, -1)
+          return
+        }
+        index = index < 0 ? 0 : Math.max(0, index - 1)
+        break
+
+      case 'Home':
+        index = 0
+        break
+
+      case 'End':
+        index = rows.length - 1
+        break
+
+      case 'ArrowLeft':
+        if (!zettel) return
+        if (isExpanded && this.searchTerms.length === 0) {
+          e.preventDefault()
+          this.setCollapsed(zettel, true)
+          return
+        }
+        // 跳到父节点：向上找第一个层级更低的条目
+        for (let i = index - 1; i >= 0; i--) {
+          if (rows[i].level < zettel.level) {
+            index = i
+            break
+          }
+        }
+        break
+
+      case 'ArrowRight':
+        if (!zettel || !hasChildren) return
+        if (!isExpanded) {
+          e.preventDefault()
+          this.setCollapsed(zettel, false)
+          return
         }
-        for (const child of node.outgoings) {
-          result.push(...flattenTree(child))
+        if (index + 1 < rows.length && rows[index + 1].level > zettel.level) {
+          index = index + 1
         }
-        return result
+        break
+
+      case 'Enter':
+        if (!zettel) return
+        e.preventDefault()
+        await this.openZettel(zettel, e.ctrlKey || e.metaKey)
+        return
+
+      case 'F2':
+        if (!zettel?.file) return
+        e.preventDefault()
+        this.renameNote(zettel.file)
+        return
+
+      case 'n':
+      case 'N':
+        if (!zettel || e.ctrlKey || e.metaKey || e.altKey) return
+        e.preventDefault()
+        await this.createChildNote(zettel)
+        return
+
+      default:
+        return
+    }
+
+    e.preventDefault()
+    this.focusRow(index)
+  }
+
+  /**
+   * 跳转命令打开笔记后，定位到对应的位置（同一笔记可能出现在多个位置）
+   */
+  revealZettelKey(key: string | null) {
+    if (!key || !this.zettelCache) return
+
+    // 目标位置可能在尚未构建的分支中
+    if (!this.zettelCache.some((n) => n.key === key)) this.loadPath(key)
+
+    const index = this.zettelCache.findIndex((n) => n.key === key)
+    if (index < 0) return
+
+    this.activeItemPath = this.zettelCache[index].file?.path ?? null
+    this.activeItemIndex = index
+    this.focusedKey = key
+    this.updateHighlight()
+    this.scrollToRow(this.visibleRows.findIndex((n) => n.key === key))
+  }
+
+  /**
+   * 统计每篇笔记在列表中的位置。开启「只完整显示首次出现」时，
+   * 第一个位置之外的条目成为引用条目，其子树不显示，也不计入位置
+   */
+  private updateOccurrences() {
+    this.occurrences.clear()
+    this.referenceRows.clear()
+    const canonicalOnly = this.plugin.settings.canonicalOccurrence
+    // 当前引用条目的层级，null 表示不在引用条目的子树中
+    let referenceLevel: number | null = null
+
+    for (const zettel of this.zettelCache || []) {
+      if (referenceLevel !== null) {
+        if (zettel.level > referenceLevel) continue
+        referenceLevel = null
       }
+      if (!zettel.file) continue
 
-      const flatList: ZettelNode[] = []
-      // 不展示根节点，展平其子节点
-      for (const child of rootNode.mutuals) {
-        flatList.push(...flattenTree(child))
+      const nodes = this.occurrences.get(zettel.file.path)
+      if (!nodes) {
+        this.occurrences.set(zettel.file.path, [zettel])
+        continue
       }
-      for (const child of rootNode.backlinks) {
-        flatList.push(...flattenTree(child))
+      nodes.push(zettel)
+      if (canonicalOnly) {
+        this.referenceRows.set(zettel, nodes[0])
+        referenceLevel = zettel.level
       }
-      for (const child of rootNode.outgoings) {
-        flatList.push(...flattenTree(child))
+    }
+  }
+
+  /**
+   * 列出同一笔记的所有位置（编号和父笔记），点击跳转到该位置
+   */
+  private showOccurrenceMenu(e: MouseEvent, zettel: ZettelNode) {
+    const nodes = zettel.file ? this.occurrences.get(zettel.file.path) : undefined
+    if (!nodes) return
+
+    const menu = new Menu()
+    for (const node of nodes) {
+      const chain = node.key.split(NODE_KEY_SEPARATOR)
+      const parent = chain.length > 1 ? this.app.vault.getAbstractFileByPath(chain[chain.length - 2]) : null
+      const title = parent instanceof TFile ? `${node.id} · ${parent.basename}` : node.id
+      const isCanonical = this.plugin.settings.canonicalOccurrence && node === nodes[0]
+      menu.addItem((item) =>
+        item
+          .setTitle(isCanonical ? `${title}（首次出现）` : title)
+          .setChecked(node === zettel)
+          .onClick(() => this.revealOccurrence(node)),
+      )
+    }
+    menu.showAtMouseEvent(e)
+  }
+
+  /**
+   * 展开目标位置的所有祖先，然后聚焦并滚动到该位置
+   */
+  private revealOccurrence(target: ZettelNode) {
+    const chain = target.key.split(NODE_KEY_SEPARATOR)
+    for (let i = 1; i < chain.length; i++) {
+      this.collapsedKeys.delete(chain.slice(0, i).join(NODE_KEY_SEPARATOR))
+    }
+    this.saveCollapsedState()
+    this.renderList()
+
+    this.plugin.activeZettelKey = target.key
+    this.revealZettelKey(target.key)
+  }
+
+  /**
+   * 将焦点移到指定可见条目并滚动到视口内
+   */
+  private focusRow(index: number) {
+    const zettel = this.visibleRows[index]
+    if (!zettel) return
+
+    this.focusedKey = zettel.key
+    this.scrollToRow(index)
+    this.refreshRowStates()
+  }
+
+  /**
+   * 不重建树，按当前折叠状态重新计算可见条目并渲染。
+   * 以焦点条目（或视口顶部条目）为锚点保持其在视口中的位置，避免刷新后滚动跳动。
+   */
+  private renderList() {
+    const listContainer = this.getListContainer()
+    if (!listContainer || !this.listEl) return
+
+    // 记录锚点
+    const scrollTop = listContainer.scrollTop
+    const topIndex = Math.floor(scrollTop / ROW_HEIGHT)
+    const focusedIndex = this.focusedKey
+      ? this.visibleRows.findIndex((n) => n.key === this.focusedKey)
+      : -1
+    const focusedInView = focusedIndex >= 0
+      && focusedIndex * ROW_HEIGHT >= scrollTop
+      && focusedIndex * ROW_HEIGHT < scrollTop + listContainer.clientHeight
+    const anchorIndex = focusedInView ? focusedIndex : topIndex
+    const anchorKey = this.visibleRows[anchorIndex]?.key ?? null
+    const anchorOffset = anchorIndex * ROW_HEIGHT - scrollTop
+
+    this.updateVisibleRows()
+    this.updateRowPositions()
+
+    // 恢复锚点
+    if (anchorKey !== null) {
+      const newIndex = this.visibleRows.findIndex((n) => n.key === anchorKey)
+      if (newIndex >= 0) {
+        listContainer.scrollTop = Math.max(0, newIndex * ROW_HEIGHT - anchorOffset)
       }
+    }
 
-      // 调整level
-      flatList.forEach((node) => (node.level -= 1))
+    this.renderWindow(true)
+    this.updateToggleButtonText()
+  }
+
+  /**
+   * 计算可见条目（跳过被折叠节点子树中的条目），并设置列表总高度
+   * 搜索时忽略折叠状态，只显示命中的条目及其祖先
+   */
+  private updateVisibleRows() {
+    if (this.searchTerms.length > 0) {
+      this.updateSearchRows()
+      return
+    }
 
-      this.zettelCache = flatList
+    const rows: ZettelNode[] = []
+    // 当前被折叠子树的根节点层级，null 表示不在折叠子树中
+    let collapsedLevel: number | null = null
 
-      // 更新笔记计数
-      const countEl = this.contentEl.querySelector('.zk-count')
-      if (countEl) {
-        countEl.textContent = `${rootNode.file.basename} · 笔记: ${flatList.length}`
+    for (const zettel of this.zettelCache || []) {
+      // 检查是否应该隐藏（位于被折叠节点的子树中）
+      if (collapsedLevel !== null) {
+        if (zettel.level > collapsedLevel) {
+          continue // 跳过被折叠的条目
+        }
+        collapsedLevel = null
       }
+      // 引用条目的子树与被折叠的子树一样不显示
+      if (this.collapsedKeys.has(zettel.key) || this.referenceRows.has(zettel)) {
+        collapsedLevel = zettel.level
+      }
+      rows.push(zettel)
+    }
 
-      // 3. 渲染
-      this.renderZettelList(listContainer as HTMLElement, flatList)
+    this.visibleRows = rows
+    if (this.listEl) {
+      this.listEl.style.height = `${rows.length * ROW_HEIGHT}px`
+    }
+  }
 
-      // 性能监控
-      const endTime = Date.now()
-      const duration = endTime - startTime
-      console.log(`ZK view refresh completed in ${duration}ms`)
+  /**
+   * 计算每个可见条目在可见同级条目中的位置，供读屏软件使用
+   */
+  private updateRowPositions() {
+    this.rowPositions.clear()
+    // 当前祖先链上各层级尚未结束的同级组
+    const groups: ZettelNode[][] = []
+    const closeGroup = (group: ZettelNode[]) => {
+      group.forEach((node, index) => this.rowPositions.set(node, { posInSet: index + 1, setSize: group.length }))
+    }
 
-      if (duration > 1000) {
-        console.warn(`ZK view refresh took ${duration}ms - consider optimizing`)
+    for (const row of this.visibleRows) {
+      while (groups.length > 0 && groups[groups.length - 1][0].level > row.level) {
+        closeGroup(groups.pop()!)
       }
-    } catch (error) {
-      console.error('ZK view refresh failed:', error)
-    } finally {
-      this.isRefreshing = false
-      this.updateToggleButtonText()
+      const top = groups[groups.length - 1]
+      if (top && top[0].level === row.level) {
+        top.push(row)
+      } else {
+        groups.push([row])
+      }
+    }
+    groups.forEach(closeGroup)
+  }
+
+  /**
+   * 搜索时的可见条目：命中的条目及其所有祖先（作为上下文）
+   */
+  private updateSearchRows() {
+    const rows: ZettelNode[] = []
+    const matches = new Set<ZettelNode>()
+    // 当前条目的祖先链，按层级保存
+    const ancestors: ZettelNode[] = []
+    // 祖先链中已加入可见列表的长度
+    let emittedDepth = 0
+    // 当前引用条目的层级，其子树不参与搜索
+    let referenceLevel: number | null = null
+
+    for (const zettel of this.zettelCache || []) {
+      if (referenceLevel !== null) {
+        if (zettel.level > referenceLevel) continue
+        referenceLevel = null
+      }
+      if (this.referenceRows.has(zettel)) {
+        referenceLevel = zettel.level
+      }
+
+      while (ancestors.length > 0 && ancestors[ancestors.length - 1].level >= zettel.level) {
+        ancestors.pop()
+      }
+      emittedDepth = Math.min(emittedDepth, ancestors.length)
+
+      const text = zettel.file
+        ? this.getCachedSearchText(zettel.file)
+        : (zettel.unresolvedLink ?? '').toLowerCase()
+      if (matchesSearch(zettel, this.searchTerms, text)) {
+        rows.push(...ancestors.slice(emittedDepth))
+        rows.push(zettel)
+        matches.add(zettel)
+        emittedDepth = ancestors.length + 1
+      }
+      ancestors.push(zettel)
     }
+
+    this.visibleRows = rows
+    this.searchMatches = matches
+    this.searchHits = rows.filter((row) => matches.has(row))
+    if (this.listEl) {
+      this.listEl.style.height = `${rows.length * ROW_HEIGHT}px`
+    }
+    this.renderSearchCount()
+  }
+
+  private getCachedSearchText(file: TFile): string {
+    let text = this.searchTextCache.get(file.path)
+    if (text === undefined) {
+      text = getSearchText(this.app, file)
+      this.searchTextCache.set(file.path, text)
+    }
+    return text
+  }
+
+  /**
+   * 头部搜索框：按标题、ID、别名、标签或 frontmatter 值过滤；
+   * Enter / Shift+Enter 在命中项之间跳转，Escape 清空
+   */
+  private setupSearch(headerEl: HTMLElement) {
+    const searchEl = headerEl.createDiv({ cls: 'zk-search' })
+    const search = new SearchComponent(searchEl)
+    search.setPlaceholder('搜索标题、ID、别名、标签…')
+    this.searchCountEl = searchEl.createSpan({ cls: 'zk-search-count' })
+
+    search.onChange((value) => {
+      this.searchTerms = parseSearchQuery(value)
+      this.searchHitIndex = -1
+      if (this.searchTerms.length === 0) {
+        this.searchMatches.clear()
+        this.searchHits = []
+      }
+      // 搜索范围包括折叠的分支，先构建尚未构建的子树（后台构建完成后命中数随列表更新）
+      if (this.searchTerms.length > 0 && this.hasPendingNodes()) {
+        this.requestFullRebuild()
+      } else {
+        this.renderList()
+      }
+      this.renderSearchCount()
+    })
+
+    this.registerDomEvent(search.inputEl, 'keydown', (e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        e.preventDefault()
+        this.jumpToSearchHit(e.shiftKey ? -1 : 1)
+        this.renderSearchCount()
+      } else if (e.key === 'Escape') {
+        search.setValue('')
+        search.onChanged()
+      }
+    })
   }
 
-  renderZettelList(container: HTMLElement, zettels: ZettelNode[]) {
-    const ul = container.createEl('ul', { cls: 'zk-list' })
+  /**
+   * 搜索命中数：跳转过时显示当前位置
+   */
+  private renderSearchCount() {
+    if (!this.searchCountEl) return
+    if (this.searchTerms.length === 0) {
+      this.searchCountEl.setText('')
+    } else if (this.searchHitIndex >= 0 && this.searchHitIndex < this.searchHits.length) {
+      this.searchCountEl.setText(`${this.searchHitIndex + 1}/${this.searchHits.length}`)
+    } else {
+      this.searchCountEl.setText(`${this.searchHits.length}`)
+    }
+  }
 
-    for (let i = 0; i < zettels.length; i++) {
-      const zettel = zettels[i]
-      const zettelId = zettel.id
-      const level = zettel.level
+  private jumpToSearchHit(direction: 1 | -1) {
+    const count = this.searchHits.length
+    if (count === 0) return
 
-      // 检查是否应该隐藏（父节点被折叠）
-      let shouldHide = false
-      if (level > 0) {
-        // 检查所有可能的父节点是否被折叠
-        for (const collapsedId of this.collapsedIds) {
-          if (
-            zettelId.startsWith(collapsedId) &&
-            zettelId.length > collapsedId.length &&
-            zettelId !== collapsedId
-          ) {
-            shouldHide = true
-            break
-          }
-        }
-      }
+    this.searchHitIndex = this.searchHitIndex < 0
+      ? (direction === 1 ? 0 : count - 1)
+      : (this.searchHitIndex + direction + count) % count
 
-      if (shouldHide) {
-        continue // 跳过被折叠的条目
-      }
+    const hit = this.searchHits[this.searchHitIndex]
+    this.focusedKey = hit.key
+    this.scrollToRow(this.visibleRows.indexOf(hit))
+    this.refreshRowStates()
+  }
 
-      const li = ul.createEl('li', { cls: 'zk-item' })
-      // 存储文件路径以便后续更新高亮
-      li.setAttribute('data-file-path', zettel.file.path)
-      li.setAttribute('data-level', level.toString())
+  /**
+   * 滚动使指定可见条目出现在视口内
+   */
+  private scrollToRow(index: number) {
+    const listContainer = this.getListContainer()
+    if (!listContainer || index < 0) return
+
+    const top = index * ROW_HEIGHT
+    if (top < listContainer.scrollTop) {
+      listContainer.scrollTop = top
+    } else if (top + ROW_HEIGHT > listContainer.scrollTop + listContainer.clientHeight) {
+      listContainer.scrollTop = top + ROW_HEIGHT - listContainer.clientHeight
+    }
+    this.renderWindow()
+  }
 
-      // 如果是当前激活的条目，添加高亮样式
-      if (this.activeItemPath && zettel.file?.path === this.activeItemPath) {
-        li.addClass('zk-item-active')
-      }
+  /**
+   * 只渲染视口内（加上下缓冲）的条目
+   */
+  private renderWindow(force = false) {
+    const listContainer = this.getListContainer()
+    const ul = this.listEl
+    if (!listContainer || !ul) return
+
+    const start = Math.max(0, Math.floor(listContainer.scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS)
+    const end = Math.min(
+      this.visibleRows.length,
+      Math.ceil((listContainer.scrollTop + listContainer.clientHeight) / ROW_HEIGHT) + OVERSCAN_ROWS,
+    )
 
-      // 根据连接类型添加样式
-      if (zettel.linkType) {
-        li.addClass(`zk-item-${zettel.linkType}`)
-      }
+    if (!force && start === this.renderedStart && end === this.renderedEnd) return
+    this.renderedStart = start
+    this.renderedEnd = end
 
-      // 根据层级设置缩进
-      li.style.paddingLeft = `${level * 10}px`
+    ul.empty()
+    listContainer.removeAttribute('aria-activedescendant')
+    for (let i = start; i < end; i++) {
+      this.createRow(ul, this.visibleRows[i], i)
+    }
+  }
 
-      // 创建项目容器
-      const itemContent = li.createDiv({ cls: 'zk-item-content' })
+  private createRow(ul: HTMLElement, zettel: ZettelNode, index: number) {
+    const zettelKey = zettel.key
+    const level = zettel.level
 
-      const hasChildren =
-        (zettel.mutuals?.length > 0) ||
-        (zettel.backlinks?.length > 0) ||
-        (zettel.outgoings?.length > 0)
+    const li = ul.createEl('li', { cls: 'zk-item' })
+    // 存储文件路径以便后续更新高亮
+    if (zettel.file) {
+      li.setAttribute('data-file-path', zettel.file.path)
+    } else {
+      li.addClass('zk-item-unresolved')
+    }
+    li.setAttribute('data-key', zettelKey)
+    li.setAttribute('data-index', index.toString())
+    li.setAttribute('data-level', level.toString())
+    li.style.top = `${index * ROW_HEIGHT}px`
+    li.id = `${this.rowIdPrefix}-${index}`
+    li.setAttribute('role', 'treeitem')
+    li.setAttribute('aria-level', (level + 1).toString())
+    const position = this.rowPositions.get(zettel)
+    if (position) {
+      li.setAttribute('aria-posinset', position.posInSet.toString())
+      li.setAttribute('aria-setsize', position.setSize.toString())
+    }
 
-      if (hasChildren) {
-        // 添加折叠/展开按钮
-        const isCollapsed = this.collapsedIds.has(zettelId)
-        const toggleBtn = itemContent.createDiv({
-          cls: isCollapsed
-            ? 'zk-collapse-icon is-collapsed'
-            : 'zk-collapse-icon',
-        })
+    // 根据连接类型添加样式
+    if (zettel.linkType) {
+      li.addClass(`zk-item-${zettel.linkType}`)
+    }
 
-        // 添加SVG图标
-        toggleBtn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="svg-icon right-triangle"><path d="M3 8L12 17L21 8"></path></svg>`
+    // 冻结编号冲突
+    if (zettel.idConflict) {
+      li.addClass('zk-item-conflict')
+    }
 
-        toggleBtn.onclick = (e) => {
-          e.stopPropagation()
-          if (this.collapsedIds.has(zettelId)) {
-            this.collapsedIds.delete(zettelId)
-          } else {
-            this.collapsedIds.add(zettelId)
-          }
-          this.saveCollapsedState()
-          this.refresh()
-        }
-      }
+    // 高亮、悬停等状态
+    this.applyRowState(li, zettel)
 
-      // 显示ID
-      const idSpan = itemContent.createSpan({
-        cls: 'zk-id',
-        text: zettel.id,
-      })
+    // 根据层级设置缩进
+    li.style.paddingLeft = `${level * 10}px`
 
+    // 创建项目容器
+    const itemContent = li.createDiv({ cls: 'zk-item-content' })
 
-      // 显示标题（直接使用basename，如果有-则去掉前缀）
-      const basename = zettel.file.basename
+    // 引用条目指向首次出现的位置，不显示自己的子树
+    const canonical = this.referenceRows.get(zettel)
+    if (canonical) {
+      li.addClass('zk-item-reference')
+    }
 
-      const titleSpan = itemContent.createSpan({
-        cls: 'zk-title',
-        text: basename,
-      })
-      // 显示任务状态图标
-      if (zettel.taskStatus !== 'none') {
-        const taskIcon = itemContent.createSpan({ cls: 'zk-task-icon' })
-        switch (zettel.taskStatus) {
-          case 'incomplete':
-            taskIcon.innerHTML = '☐' // 未完成任务图标
-            taskIcon.addClass('zk-task-incomplete')
-            break
-          case 'complete':
-            taskIcon.innerHTML = '☑' // 已完成任务图标
-            taskIcon.addClass('zk-task-complete')
-            break
-          case 'mixed':
-            taskIcon.innerHTML = '☒' // 混合状态任务图标
-            taskIcon.addClass('zk-task-mixed')
-            break
-        }
-      }
+    const hasChildren = !canonical && (
+      (zettel.mutuals?.length > 0) ||
+      (zettel.backlinks?.length > 0) ||
+      (zettel.outgoings?.length > 0) ||
+      (zettel.pendingChildren ?? 0) > 0
+    )
 
-      // 点击打开文件
-      itemContent.onclick = async (e) => {
-        e.preventDefault()
+    if (hasChildren) {
+      li.setAttribute('aria-expanded', String(!this.collapsedKeys.has(zettelKey) || this.searchTerms.length > 0))
 
-        // 如果该条目被折叠，先展开它
-        if (this.collapsedIds.has(zettelId)) {
-          this.collapsedIds.delete(zettelId)
-          this.saveCollapsedState()
-          await this.refresh()
-          return
-        }
+      // 添加折叠/展开按钮
+      const isCollapsed = this.collapsedKeys.has(zettelKey)
+      const toggleBtn = itemContent.createDiv({
+        cls: isCollapsed
+          ? 'zk-collapse-icon is-collapsed'
+          : 'zk-collapse-icon',
+      })
 
-        // 立即设置高亮
-        this.activeItemPath = zettel.file.path
-        this.activeItemIndex = i // 记录点击的索引，用于查找子节点
+      // 添加SVG图标
+      if (zettel.pendingChildren) {
+        toggleBtn.setAttribute('title', `${zettel.pendingChildren} 个子节点`)
+      }
+      toggleBtn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="svg-icon right-triangle"><path d="M3 8L12 17L21 8"></path></svg>`
+    }
 
-        // 更新所有高亮样式 (包括子节点高亮)
-        this.updateHighlight()
+    // 显示ID
+    const idSpan = itemContent.createSpan({
+      cls: 'zk-id',
+      text: zettel.id,
+    })
+    if (zettel.idConflict) {
+      idSpan.setAttribute('title', '编号冲突：多个笔记声明了同一编号')
+    }
 
-        // 获取最近使用的主编辑区leaf，而不是当前侧边栏的leaf
-        const leaf = this.app.workspace.getMostRecentLeaf()
-        if (leaf) {
-          await leaf.openFile(zettel.file)
-          // 文件打开后不需要刷新，file-open事件会自动更新高亮
-        }
+    // 显示标题（直接使用basename，如果有-则去掉前缀）；占位节点显示链接文本
+    const basename = zettel.file ? zettel.file.basename : zettel.unresolvedLink ?? ''
+
+    const titleSpan = itemContent.createSpan({ cls: 'zk-title' })
+    if (this.searchMatches.has(zettel)) {
+      // 高亮标题中的搜索关键词
+      let last = 0
+      for (const [from, to] of findMatchRanges(basename, this.searchTerms)) {
+        titleSpan.appendText(basename.slice(last, from))
+        titleSpan.createEl('mark', { cls: 'zk-search-mark', text: basename.slice(from, to) })
+        last = to
       }
-
-      // 右键菜单
-      itemContent.oncontextmenu = (e) => {
-        e.preventDefault()
-        this.showContextMenu(e, zettel.file)
+      titleSpan.appendText(basename.slice(last))
+    } else {
+      titleSpan.setText(basename)
+    }
+    // 显示任务状态图标
+    if (zettel.taskStatus !== 'none') {
+      const taskIcon = itemContent.createSpan({ cls: 'zk-task-icon' })
+      switch (zettel.taskStatus) {
+        case 'incomplete':
+          taskIcon.innerHTML = '☐' // 未完成任务图标
+          taskIcon.addClass('zk-task-incomplete')
+          break
+        case 'complete':
+          taskIcon.innerHTML = '☑' // 已完成任务图标
+          taskIcon.addClass('zk-task-complete')
+          break
+        case 'mixed':
+          taskIcon.innerHTML = '☒' // 混合状态任务图标
+          taskIcon.addClass('zk-task-mixed')
+          break
       }
+    }
 
-      // 拖放功能：设置为可拖动
-      li.setAttribute('draggable', 'true')
+    // 链接关系标注（非链接模式）
+    if (zettel.links) {
+      this.renderLinkBadges(itemContent, zettel.links)
+    }
 
-      // Hover Effect: Highlight all instances of the same file
-      li.addEventListener('mouseenter', () => {
-        const filePath = zettel.file.path
-        const allInstances = container.querySelectorAll(
-          `.zk-item[data-file-path="${filePath}"]`
-        )
-        allInstances.forEach((instance) => {
-          instance.addClass('zk-item-hover')
-        })
+    // 出现在多个位置的笔记：显示位置数，点击列出所有位置
+    const occurrences = zettel.file ? this.occurrences.get(zettel.file.path) : undefined
+    if (occurrences && occurrences.length > 1) {
+      itemContent.createSpan({
+        cls: 'zk-occurrence-badge',
+        text: `×${occurrences.length}`,
+        attr: {
+          title: `出现在 ${occurrences.length} 个位置：${occurrences.map((n) => n.id).join(', ')}`,
+          'data-action': 'occurrences',
+        },
       })
-
-      li.addEventListener('mouseleave', () => {
-        const filePath = zettel.file.path
-        const allInstances = container.querySelectorAll(
-          `.zk-item[data-file-path="${filePath}"]`
-        )
-        allInstances.forEach((instance) => {
-          instance.removeClass('zk-item-hover')
-        })
+    }
+    if (canonical) {
+      itemContent.createSpan({
+        cls: 'zk-reference-link',
+        text: `↪ ${canonical.id}`,
+        attr: {
+          title: '跳转到首次出现的位置',
+          'data-action': 'go-canonical',
+        },
       })
+    }
 
-      // dragstart: 开始拖动时，记录被拖动的文件路径和双链格式
-      li.addEventListener('dragstart', (e) => {
-        if (e.dataTransfer) {
-          e.dataTransfer.effectAllowed = 'copyMove'
-
-          // 生成双链文本 [[文件名]] - 去掉.md扩展名
-          const fileName = zettel.file.basename.replace(/\.md$/, '')
-          const wikiLink = `[[${fileName}]]`
+    // 占位节点：不可拖动，没有操作按钮，点击创建笔记
+    if (!zettel.file) {
+      li.setAttribute('title', `未解析的链接，点击创建「${basename}」`)
+      return
+    }
 
-          // 设置文本格式（拖到编辑器时使用）
-          e.dataTransfer.setData('text/plain', wikiLink)
+    // 子笔记的有效排序（文件名编号模式下按编号排列）
+    if (hasChildren && this.plugin.settings.treeSource !== 'filename') {
+      const { keys, fromBranch } = resolveSortKeys(this.app, this.plugin.settings, zettel.file)
+      const source = fromBranch ? `（${this.plugin.settings.branchSortField}）` : ''
+      const manual = this.plugin.settings.manualOrder ? '，手动排序优先' : ''
+      li.setAttribute('title', `子笔记排序: ${describeSortKeys(keys)}${source}${manual}`)
+    }
 
-          // 设置Obsidian内部格式（拖到列表中重排序时使用）
-          e.dataTransfer.setData(
-            'application/x-obsidian-file-path',
-            zettel.file.path,
-          )
+    // 拖放功能：设置为可拖动
+    li.setAttribute('draggable', 'true')
 
-          li.addClass('zk-item-dragging')
-        }
-      })
+    // 添加操作按钮（点击由列表统一处理）
+    const actions = li.createDiv({ cls: 'zk-actions' })
 
-      li.addEventListener('dragend', (e) => {
-        li.removeClass('zk-item-dragging')
-      })
+    // 添加子笔记按钮
+    actions.createEl('button', {
+      text: '➕',
+      cls: 'zk-action-btn',
+      attr: {
+        'aria-label': '添加子笔记',
+        title: '添加子笔记',
+        'data-action': 'add-child',
+      },
+    })
 
-      // 添加操作按钮
-      const actions = li.createDiv({ cls: 'zk-actions' })
+    // 重命名按钮
+    actions.createEl('button', {
+      text: '✏️',
+      cls: 'zk-action-btn',
+      attr: {
+        'aria-label': '重命名',
+        title: '重命名笔记',
+        'data-action': 'rename',
+      },
+    })
 
-      // 添加子笔记按钮
-      const addBtn = actions.createEl('button', {
-        text: '➕',
+    // 展开/收起正向引用
+    if (this.canToggleOutgoing(zettel)) {
+      const expanded = this.plugin.settings.expandedOutgoingKeys.includes(zettelKey)
+      const label = expanded ? '收起正向链接' : '展开正向链接'
+      actions.createEl('button', {
+        text: expanded ? '⤴' : '⤵',
         cls: 'zk-action-btn',
         attr: {
-          'aria-label': '添加子笔记',
-          title: '添加子笔记',
+          'aria-label': label,
+          title: label,
+          'data-action': 'toggle-outgoing',
         },
       })
-      addBtn.onclick = async (e) => {
-        e.stopPropagation()
-        await this.createChildNote(zettel)
+    }
+
+    // 手动排序：上移/下移
+    if (this.canReorder(zettel)) {
+      const siblings = this.getSiblingFiles(zettel)
+      const position = siblings.indexOf(zettel.file)
+      if (position > 0) {
+        actions.createEl('button', {
+          text: '↑',
+          cls: 'zk-action-btn',
+          attr: { 'aria-label': '上移', title: '上移', 'data-action': 'move-up' },
+        })
+      }
+      if (position < siblings.length - 1) {
+        actions.createEl('button', {
+          text: '↓',
+          cls: 'zk-action-btn',
+          attr: { 'aria-label': '下移', title: '下移', 'data-action': 'move-down' },
+        })
       }
+    }
+  }
 
-      // 重命名按钮
-      const renameBtn = actions.createEl('button', {
-        text: '✏️',
-        cls: 'zk-action-btn',
+  /**
+   * 以 ↔ / ← / → 加数量显示链接关系，悬停时列出对应的笔记
+   */
+  private renderLinkBadges(container: HTMLElement, links: ZettelLinkSummary) {
+    const groups: [TFile[], string, string][] = [
+      [links.mutuals, '↔', '双向引用'],
+      [links.backlinks, '←', '反向链接'],
+      [links.outgoings, '→', '正向链接'],
+    ]
+    for (const [files, symbol, label] of groups) {
+      if (files.length === 0) continue
+      container.createSpan({
+        cls: 'zk-link-badge',
+        text: `${symbol}${files.length}`,
         attr: {
-          'aria-label': '重命名',
-          title: '重命名笔记',
+          title: `${label}:\n${files.map((f) => f.basename).join('\n')}`,
         },
       })
-      renameBtn.onclick = (e) => {
-        e.stopPropagation()
-        this.renameNote(zettel.file)
-      }
     }
   }
 
+  /**
+   * 根据当前激活、子节点高亮、悬停和焦点状态设置条目样式
+   */
+  private applyRowState(li: HTMLElement, zettel: ZettelNode) {
+    const path = zettel.file?.path
+    li.toggleClass('zk-item-active', path !== undefined && path === this.activeItemPath)
+    li.toggleClass('zk-item-hover', path !== undefined && path === this.hoverPath)
+    li.toggleClass('zk-item-focused', zettel.key === this.focusedKey)
+    li.setAttribute('aria-selected', String(zettel.key === this.focusedKey))
+    if (zettel.key === this.focusedKey) {
+      this.getListContainer()?.setAttribute('aria-activedescendant', li.id)
+    }
+    li.toggleClass('zk-item-match', this.searchMatches.has(zettel))
+    li.toggleClass('zk-item-context', this.searchTerms.length > 0 && !this.searchMatches.has(zettel))
+
+    const colorIndex = path !== undefined ? this.childHighlights.get(path) : undefined
+    for (let i = 0; i < 7; i++) {
+      li.toggleClass(`zk-child-highlight-${i}`, colorIndex === i)
+    }
+  }
+
+  /**
+   * 重新应用已渲染条目的状态（不重新创建条目）
+   */
+  private refreshRowStates() {
+    if (!this.listEl) return
+    this.getListContainer()?.removeAttribute('aria-activedescendant')
+    for (const li of Array.from(this.listEl.children) as HTMLElement[]) {
+      const zettel = this.visibleRows[Number(li.getAttribute('data-index'))]
+      if (zettel) this.applyRowState(li, zettel)
+    }
+  }
+
+  private setHoverPath(path: string | null) {
+    if (path === this.hoverPath) return
+    this.hoverPath = path
+    this.refreshRowStates()
+  }
+
   showContextMenu(e: MouseEvent, file: TFile) {
     const menu = new Menu()
 
@@ -484,17 +1856,17 @@ export class ZettelkastenView extends ItemView {
 
   toggleAllCollapse() {
     const allZettels = this.getAllZettels()
-    const hasCollapsedItems = this.collapsedIds.size > 0
+    const hasCollapsedItems = this.collapsedKeys.size > 0
 
     if (hasCollapsedItems) {
       // 如果有折叠的项目，则全部展开
-      this.collapsedIds.clear()
+      this.collapsedKeys.clear()
     } else {
       // 如果全部展开，则全部折叠（除了根级别的项目）
       for (const zettel of allZettels) {
         if (zettel.level > 0 &&
           (zettel.mutuals?.length > 0 || zettel.backlinks?.length > 0 || zettel.outgoings?.length > 0)) {
-          this.collapsedIds.add(zettel.id)
+          this.collapsedKeys.add(zettel.key)
         }
       }
     }
@@ -502,74 +1874,280 @@ export class ZettelkastenView extends ItemView {
     // 保存折叠状态
     this.saveCollapsedState()
 
-    // 刷新视图
-    this.refresh()
+    // 重新渲染视图（全部展开时先构建尚未构建的子树）
+    if (!hasCollapsedItems || !this.hasPendingNodes()) {
+      this.renderList()
+    } else {
+      this.requestFullRebuild()
+    }
 
     // 更新按钮文本
     this.updateToggleButtonText()
   }
 
-  updateToggleButtonText() {
-    const toggleBtn = this.contentEl.querySelector(
-      '.zk-toggle-btn',
-    ) as HTMLButtonElement
-    if (toggleBtn) {
-      const hasCollapsedItems = this.collapsedIds.size > 0
-      toggleBtn.textContent = hasCollapsedItems ? '展开全部' : '折叠全部'
+  /**
+   * 更新头部计数：单根模式显示根文件名，森林模式显示每个根的笔记数。
+   * 计数为不重复的笔记数，包括尚未构建的分支中的笔记
+   */
+  private renderCount() {
+    const countEl = this.contentEl.querySelector('.zk-count') as HTMLElement
+    if (!countEl) return
+
+    const total = this.countNotes(this.zettelCache || [], this.pendingFiles)
+    countEl.empty()
+    if (this.rootNodes.length === 1 && this.rootNodes[0].id === '') {
+      countEl.textContent = `${this.rootNodes[0].file?.basename} · 笔记: ${total}`
+      return
+    }
+
+    countEl.createSpan({ text: `笔记: ${total}` })
+    // 文件名编号模式下未配置根列表时，顶层节点可能很多，只显示总数
+    if (this.plugin.settings.roots.length === 0) return
+
+    for (const root of this.rootNodes) {
+      const count = this.countNotes(flattenZettelRoot(root), this.rootPendingFiles.get(root) ?? new Set())
+      const rootEl = countEl.createSpan({ cls: 'zk-root-count' })
+      rootEl.createSpan({ cls: 'zk-id', text: root.id })
+      rootEl.createSpan({ text: ` ${count}` })
+      rootEl.setAttribute('title', `${root.file?.basename}: ${count}`)
     }
   }
 
-  async createChildNote(parent: ZettelNode) {
-    const modal = new NoteInputModal(
-      this.app,
-      '',
-      '新建子笔记',
-      async (newName) => {
-        if (!newName.trim()) {
-          new Notice('文件名不能为空')
-          return
+  /**
+   * 重新收集尚未构建的分支中的笔记，供计数和未纳入树的笔记共用；
+   * 森林模式下按根分别收集以显示每个根的笔记数。collected 为后台构建时已按根收集的结果
+   */
+  private updatePendingFiles(collected?: Set<TFile>[]) {
+    this.pendingFiles = new Set()
+    this.rootPendingFiles.clear()
+    if (collected) {
+      this.rootNodes.forEach((root, index) => {
+        const files = collected[index] ?? new Set<TFile>()
+        this.rootPendingFiles.set(root, files)
+        files.forEach((file) => this.pendingFiles.add(file))
+      })
+      return
+    }
+
+    const collect = this.pendingCollector
+    if (!collect || !this.hasPendingNodes()) return
+
+    if (this.plugin.settings.roots.length === 0) {
+      this.pendingFiles = collect(this.zettelCache || [])
+      return
+    }
+    for (const root of this.rootNodes) {
+      const files = collect(flattenZettelRoot(root))
+      this.rootPendingFiles.set(root, files)
+      files.forEach((file) => this.pendingFiles.add(file))
+    }
+  }
+
+  private countNotes(nodes: ZettelNode[], pendingFiles: Set<TFile>): number {
+    const files = new Set(pendingFiles)
+    for (const node of nodes) {
+      if (node.file) files.add(node.file)
+    }
+    // 隐藏的根节点不显示，也不计数
+    for (const root of this.rootNodes) {
+      if (root.id === '' && root.file) files.delete(root.file)
+    }
+    return files.size
+  }
+
+  /**
+   * 重新计算未纳入树的笔记：范围内、但既不是根节点也没有出现在树中的 Markdown 文件
+   */
+  private updateOrphans() {
+    if (!this.orphansEl) return
+
+    const placed = new Set<TFile>()
+    for (const root of this.rootNodes) {
+      if (root.file) placed.add(root.file)
+    }
+    for (const node of this.zettelCache || []) {
+      if (node.file) placed.add(node.file)
+    }
+    this.pendingFiles.forEach((file) => placed.add(file))
+
+    const inScope = createScopeFilter(this.app, this.plugin.settings)
+    this.orphanFiles = this.app.vault.getMarkdownFiles().filter((f) => !placed.has(f) && inScope(f))
+
+    const summary = this.orphansEl.querySelector('.zk-orphans-summary')
+    summary?.setText(`未纳入树的笔记 (${this.orphanFiles.length})`)
+    this.renderOrphanList()
+  }
+
+  /**
+   * 按文件夹分组渲染未纳入树的笔记，每项可附加到当前笔记或选择的节点下
+   */
+  private renderOrphanList() {
+    const body = this.orphansEl?.querySelector('.zk-orphans-body') as HTMLElement | null
+    if (!body) return
+    body.empty()
+    if (!this.orphansEl?.open) return
+
+    const groups = new Map<string, TFile[]>()
+    for (const file of this.orphanFiles) {
+      const folder = file.parent?.path || '/'
+      groups.set(folder, [...(groups.get(folder) || []), file])
+    }
+
+    for (const folder of Array.from(groups.keys()).sort((a, b) => a.localeCompare(b))) {
+      body.createDiv({ cls: 'zk-orphan-folder', text: folder })
+
+      const files = groups.get(folder)!.sort((a, b) => a.basename.localeCompare(b.basename))
+      for (const file of files) {
+        const item = body.createDiv({ cls: 'zk-orphan-item' })
+        const title = item.createSpan({ cls: 'zk-title', text: file.basename })
+        title.onclick = async () => {
+          await this.app.workspace.getMostRecentLeaf()?.openFile(file)
         }
 
-        try {
-          // 获取父条目的目录路径
-          const parentPath = parent.file.path
-          const parentDir = parentPath.substring(0, parentPath.lastIndexOf('/'))
-          const newFilePath = parentDir
-            ? `${parentDir}/${newName}.md`
-            : `${newName}.md`
-
-          // 在子条目文件中添加父条目的引用
-          const parentLink = `[[${parent.file.basename}]]`
-          const initialContent = `${parentLink}\n\n`
-
-          // 创建新文件在父条目相同的目录中
-          const newFile = await this.app.vault.create(
-            newFilePath,
-            initialContent,
-          )
-
-          // 在父文件中添加引用到新文件
-          const parentContent = await this.app.vault.read(parent.file)
-          const childLink = `[[${newName}]]`
-          const newParentContent = parentContent + '\n' + childLink
-          await this.app.vault.modify(parent.file, newParentContent)
-
-          // 打开新文件
+        const actions = item.createDiv({ cls: 'zk-orphan-actions' })
+        const attachActive = actions.createEl('button', {
+          text: '📎',
+          cls: 'zk-action-btn',
+          attr: { 'aria-label': '附加到当前笔记', title: '附加到当前笔记' },
+        })
+        attachActive.onclick = () => this.attachOrphan(file, this.app.workspace.getActiveFile())
+
+        const attachChosen = actions.createEl('button', {
+          text: '🔗',
+          cls: 'zk-action-btn',
+          attr: { 'aria-label': '附加到…', title: '附加到选择的节点' },
+        })
+        attachChosen.onclick = () => this.chooseOrphanParent(file)
+      }
+    }
+  }
+
+  private chooseOrphanParent(file: TFile) {
+    const nodes = [...this.rootNodes.filter((root) => root.id === ''), ...(this.zettelCache || [])]
+      .filter((n): n is ZettelFileNode => n.file !== null)
+    new ZettelNodeSuggestModal(this.app, nodes, `将「${file.basename}」附加到…`, (node) => {
+      this.attachOrphan(file, node.file)
+    }).open()
+  }
+
+  /**
+   * 把未纳入树的笔记作为子笔记附加到父笔记下
+   */
+  private async attachOrphan(file: TFile, parent: TFile | null) {
+    if (this.plugin.settings.treeSource === 'filename') {
+      new Notice('文件名编号模式下请修改文件名中的编号以加入树')
+      return
+    }
+    if (!parent || parent.extension !== 'md') {
+      new Notice('请先打开一篇笔记')
+      return
+    }
+    if (parent === file) return
+
+    await this.reparentWithUndo(file, null, parent)
+  }
+
+  /**
+   * 在头部下方列出被多个笔记同时声明的冻结编号，以及保存的编号已不在原位置的笔记
+   */
+  private renderConflicts() {
+    const conflictsEl = this.contentEl.querySelector('.zk-conflicts') as HTMLElement
+    if (!conflictsEl) return
+
+    conflictsEl.empty()
+    if (!this.plugin.settings.freezeIds) return
+
+    this.renderMovedFrozenIds(conflictsEl)
+
+    const conflicts = findFrozenIdConflicts(this.app, this.plugin.settings)
+    if (conflicts.size === 0) return
+
+    conflictsEl.createDiv({
+      cls: 'zk-conflicts-title',
+      text: `编号冲突: ${conflicts.size}`,
+    })
+    conflicts.forEach((files, id) => {
+      const row = conflictsEl.createDiv({ cls: 'zk-conflict-row' })
+      row.createSpan({ cls: 'zk-id', text: id })
+      for (const file of files) {
+        const link = row.createSpan({ cls: 'zk-conflict-file', text: file.basename })
+        link.onclick = async () => {
           const leaf = this.app.workspace.getMostRecentLeaf()
           if (leaf) {
-            await leaf.openFile(newFile)
+            await leaf.openFile(file)
           }
+        }
+      }
+    })
+  }
 
-          // 刷新视图
-          await this.refresh()
+  private renderMovedFrozenIds(conflictsEl: HTMLElement) {
+    const nodes = [...this.rootNodes.filter((root) => root.id === ''), ...(this.zettelCache || [])]
+    const moved = findMovedFrozenIds(this.app, this.plugin.settings, nodes)
+    if (moved.length === 0) return
+
+    conflictsEl.createDiv({
+      cls: 'zk-conflicts-title',
+      text: `编号已移动: ${moved.length}`,
+    })
+    for (const { file, storedId, id } of moved) {
+      const row = conflictsEl.createDiv({ cls: 'zk-conflict-row' })
+      const link = row.createSpan({ cls: 'zk-conflict-file', text: file.basename })
+      link.onclick = async () => {
+        const leaf = this.app.workspace.getMostRecentLeaf()
+        if (leaf) {
+          await leaf.openFile(file)
+        }
+      }
+      row.createSpan({ cls: 'zk-id', text: `${storedId} → ${id}` })
+      const updateBtn = row.createEl('button', {
+        text: '更新',
+        cls: 'zk-action-btn',
+        attr: { 'aria-label': '写入当前编号', title: `将保存的编号改为 ${id}` },
+      })
+      updateBtn.onclick = async () => {
+        try {
+          await writeFrozenId(this.app, file, id, this.plugin.settings)
         } catch (error) {
-          console.error('创建子笔记失败:', error)
-          new Notice('创建子笔记失败')
+          console.error('写入冻结编号失败:', error)
+          new Notice('写入冻结编号失败')
         }
-      },
-    )
+      }
+    }
+  }
 
-    modal.open()
+  updateToggleButtonText() {
+    const toggleBtn = this.contentEl.querySelector(
+      '.zk-toggle-btn',
+    ) as HTMLButtonElement
+    if (toggleBtn) {
+      const hasCollapsedItems = this.collapsedKeys.size > 0
+      toggleBtn.textContent = hasCollapsedItems ? '展开全部' : '折叠全部'
+    }
+  }
+
+  /**
+   * 点击占位节点：在父笔记所在目录创建被链接的笔记并打开
+   */
+  private async createUnresolvedNote(zettel: ZettelNode) {
+    const parent = this.findParentNode(zettel)
+    if (!parent?.file || !zettel.unresolvedLink) return
+
+    try {
+      await createNoteFromUnresolvedLink(this.app, parent.file, zettel.unresolvedLink)
+      this.refresh()
+    } catch (error) {
+      console.error('创建笔记失败:', error)
+      new Notice('创建笔记失败')
+    }
+  }
+
+  async createChildNote(parent: ZettelNode) {
+    if (!parent.file) return
+    openCreateChildModal(this.app, parent.file, this.plugin.settings, () => {
+      // 刷新视图
+      this.refresh()
+    })
   }
 
   async renameNote(file: TFile) {
@@ -602,63 +2180,35 @@ export class ZettelkastenView extends ItemView {
    * 更新列表项的高亮状态（不刷新整个列表）
    */
   private updateHighlight() {
-    const listContainer = this.contentEl.querySelector('.zk-list-container')
-    if (!listContainer) return
-
-    const allItems = listContainer.querySelectorAll('.zk-item')
+    this.childHighlights.clear()
 
-    // 1. 清除所有高亮
-    allItems.forEach((item) => {
-      const li = item as HTMLElement
-      li.removeClass('zk-item-active')
-      // Remove child highlights
-      for (let i = 0; i < 7; i++) {
-        li.removeClass(`zk-child-highlight-${i}`)
-      }
-    })
-
-    if (!this.activeItemPath) return
-
-    // 2. 找到当前激活的节点
-    // zettelCache 是展平的列表，可以用来查找节点
-    if (!this.zettelCache) return
-
-    // 注意：展平列表中可能有多个节点指向同一个文件（如果树结构允许重复）
-    // 但通常我们只需要找到一个"主"节点来获取其子节点信息即可。
-    // 在本实现中，所有节点包含完整的 children (mutuals/backlinks/outgoings) 信息，
-    // 所以找到任意一个匹配 activeItemPath 的节点都可以。
-    const activeNode = this.zettelCache.find(n => n.file.path === this.activeItemPath)
-
-    // 3. 应用高亮
-    if (activeNode) {
-      // 高亮所有该文件的实例
-      const activeInstances = listContainer.querySelectorAll(
-        `.zk-item[data-file-path="${this.activeItemPath.replace(/"/g, '\\"')}"]`
-      )
-      activeInstances.forEach((li) => {
-        li.addClass('zk-item-active')
-      })
-
-      // 高亮子节点
+    if (this.activeItemPath && this.zettelCache) {
+      // 注意：展平列表中可能有多个节点指向同一个文件（如果树结构允许重复）
+      // 优先使用点击记录的索引，以便高亮被点击的那个位置下的子节点
       let index = this.activeItemIndex
 
-      // 如果没有点击记录（例如通过其他方式打开文件），则查找第一个匹配项
-      if ((index === null || index === undefined) && this.zettelCache) {
-        index = this.zettelCache.findIndex(n => n.file.path === this.activeItemPath)
+      // 如果没有点击记录（例如通过其他方式打开文件），或增量更新后索引已失效，则查找第一个匹配项
+      if (index === null || index === undefined || this.zettelCache[index]?.file?.path !== this.activeItemPath) {
+        index = this.zettelCache.findIndex(n => n.file?.path === this.activeItemPath)
       }
 
-      if (typeof index === 'number' && index >= 0) {
-        this.highlightActiveChildren(index, listContainer)
+      if (index >= 0) {
+        this.collectActiveChildren(index)
       }
     }
+
+    this.refreshRowStates()
   }
 
-  private highlightActiveChildren(index: number, container: Element) {
+  /**
+   * 记录激活节点的直接子节点及其高亮颜色
+   */
+  private collectActiveChildren(index: number) {
     if (!this.zettelCache || index < 0 || index >= this.zettelCache.length) return
 
     const startNode = this.zettelCache[index]
     const targetLevel = startNode.level + 1
-    const childrenPaths: string[] = []
+    let colorIndex = 0
 
     // 向下查找直接子节点（通过缩进层级判断）
     for (let i = index + 1; i < this.zettelCache.length; i++) {
@@ -670,38 +2220,58 @@ export class ZettelkastenView extends ItemView {
       }
 
       // 只有层级正好+1的才是直接子节点
-      if (current.level === targetLevel) {
-        childrenPaths.push(current.file.path)
+      if (current.level === targetLevel && current.file && !this.childHighlights.has(current.file.path)) {
+        this.childHighlights.set(current.file.path, colorIndex % 7)
+        colorIndex++
       }
     }
-
-    // 应用颜色
-    childrenPaths.forEach((path, colorIndex) => {
-      const cssClass = `zk-child-highlight-${colorIndex % 7}`
-
-      // 查找该文件的所有可视实例
-      const instances = container.querySelectorAll(
-        `.zk-item[data-file-path="${path}"]`
-      )
-
-      instances.forEach(li => {
-        li.addClass(cssClass)
-      })
-    })
   }
 
   saveCollapsedState() {
-    this.plugin.settings.collapsedIds = Array.from(this.collapsedIds)
+    this.plugin.settings.collapsedKeys = Array.from(this.collapsedKeys)
     this.plugin.saveSettings()
   }
 
+  /**
+   * 旧版设置按编号保存折叠状态，编号会随排序变化。
+   * 首次构建树时按当前编号换算为路径链，之后丢弃旧数据。
+   */
+  private migrateCollapsedIds(zettels: ZettelNode[]) {
+    const legacyIds = this.plugin.settings.collapsedIds
+    if (!legacyIds) return
+
+    const idSet = new Set(legacyIds)
+    for (const zettel of zettels) {
+      if (idSet.has(zettel.id)) {
+        this.collapsedKeys.add(zettel.key)
+      }
+    }
+
+    delete this.plugin.settings.collapsedIds
+    this.saveCollapsedState()
+  }
+
   /**
    */
   private getAllZettels(): ZettelNode[] {
     return this.zettelCache || []
   }
 
+  onResize() {
+    this.renderWindow()
+  }
+
   async onClose() {
-    // 清理工作
+    // 清理工作：先停止等待中的刷新，避免关闭后再创建 Worker
+    this.closed = true
+    if (this.refreshTimeout) {
+      clearTimeout(this.refreshTimeout)
+      this.refreshTimeout = null
+    }
+    this.treeWorker.destroy()
+    if (this.scrollFrame !== null) {
+      cancelAnimationFrame(this.scrollFrame)
+      this.scrollFrame = null
+    }
   }
 }
@@ -0,0 +1,5 @@
+// esbuild 将 `worker:` 开头的导入单独打包，导入结果为 Worker 脚本的文本（见 esbuild.config.mjs）
+declare module 'worker:*' {
+    const source: string
+    export default source
+}